@@ -0,0 +1,145 @@
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import { Messages } from '@salesforce/core';
+import { action } from '@oclif/core/ux';
+import chalk from 'chalk';
+import { SeederLogger, SnapshotManifest, PersistedSeedConfig, RelatedObjectConfig } from '../../lib/types.js';
+import { addRelationshipPath, validateTree } from '../../lib/tree.js';
+import { loadPlan, resolvePlan } from '../../lib/plan.js';
+import { loadMaskingRules } from '../../lib/masking.js';
+import { exportSnapshot } from '../../lib/snapshot.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('sf-cli-seedbuddy', 'seedbuddy.export');
+
+export default class Export extends SfCommand<SnapshotManifest> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    'source-org': Flags.requiredOrg({
+      char: 's',
+      summary: messages.getMessage('flags.source-org.summary'),
+    }),
+    'output-dir': Flags.directory({
+      char: 'd',
+      summary: messages.getMessage('flags.output-dir.summary'),
+      required: true,
+    }),
+    object: Flags.string({
+      char: 'o',
+      summary: messages.getMessage('flags.object.summary'),
+      exactlyOne: ['object', 'plan'],
+    }),
+    children: Flags.string({
+      char: 'c',
+      summary: messages.getMessage('flags.children.summary'),
+    }),
+    'include-tasks': Flags.boolean({
+      summary: messages.getMessage('flags.include-tasks.summary'),
+      default: false,
+    }),
+    'include-events': Flags.boolean({
+      summary: messages.getMessage('flags.include-events.summary'),
+      default: false,
+    }),
+    'include-files': Flags.boolean({
+      summary: messages.getMessage('flags.include-files.summary'),
+      default: false,
+    }),
+    'file-versions': Flags.boolean({
+      summary: messages.getMessage('flags.file-versions.summary'),
+      default: false,
+    }),
+    count: Flags.string({
+      char: 'n',
+      summary: messages.getMessage('flags.count.summary'),
+      default: '10',
+    }),
+    where: Flags.string({
+      char: 'w',
+      summary: messages.getMessage('flags.where.summary'),
+    }),
+    masking: Flags.file({
+      summary: messages.getMessage('flags.masking.summary'),
+      exists: true,
+      exclusive: ['plan'],
+    }),
+    'dependency-depth': Flags.integer({
+      summary: messages.getMessage('flags.dependency-depth.summary'),
+      min: 1,
+    }),
+    plan: Flags.file({
+      summary: messages.getMessage('flags.plan.summary'),
+      exists: true,
+      exclusive: ['object', 'children', 'where', 'masking'],
+    }),
+  };
+
+  public async run(): Promise<SnapshotManifest> {
+    const { flags } = await this.parse(Export);
+
+    const logger: SeederLogger = {
+      log: (msg) => this.log(msg),
+      warn: (msg) => this.warn(msg),
+      startSpinner: (msg) => action.start(msg),
+      updateSpinner: (msg) => { action.status = msg; },
+      stopSpinner: (msg) => action.stop(msg),
+      stopSpinnerFail: (msg) => action.stop(msg),
+    };
+
+    const sourceConn = flags['source-org'].getConnection();
+    let config: PersistedSeedConfig;
+
+    if (flags.plan) {
+      logger.startSpinner(`Resolving plan ${flags.plan}...`);
+      config = await resolvePlan(sourceConn, loadPlan(flags.plan));
+      logger.stopSpinner(`Plan resolved: ${config.coreObject.objectApiName}`);
+    } else {
+      const objectApiName = flags.object!;
+      const children: RelatedObjectConfig[] = [];
+      const childPaths = (flags.children ?? '').split(',').map((s) => s.trim()).filter(Boolean);
+      for (const childPath of childPaths) {
+        const warning = await addRelationshipPath(sourceConn, objectApiName, children, childPath);
+        if (warning) logger.warn(`${warning} — skipping ${childPath}`);
+      }
+      validateTree(objectApiName, children);
+
+      config = {
+        coreObject: { objectApiName },
+        children,
+        includeTasks: flags['include-tasks'],
+        includeEvents: flags['include-events'],
+        includeFiles: flags['include-files'],
+        recordCount: flags.count.toLowerCase() === 'all' ? 'All' : parseInt(flags.count, 10),
+        whereClause: flags.where || undefined,
+        masking: flags.masking ? loadMaskingRules(flags.masking) : undefined,
+      };
+    }
+
+    const startTime = Date.now();
+    const manifest = await exportSnapshot(
+      sourceConn, config, flags['output-dir'], logger, flags['dependency-depth'], flags['file-versions']
+    );
+    const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+
+    this.displayResults(manifest, flags['output-dir'], elapsed);
+    return manifest;
+  }
+
+  private displayResults(manifest: SnapshotManifest, outputDir: string, elapsed: string): void {
+    this.log('\n' + chalk.bold.cyan('═══ EXPORT RESULTS ═══'));
+    this.log(chalk.gray(`  Completed in ${elapsed}s\n`));
+
+    for (const entry of manifest.objects) {
+      const note = entry.fingerprint ? '' : chalk.gray(' (reference)');
+      this.log(`  ${chalk.bold(entry.objectApiName)}: records=${entry.records}${note}`);
+    }
+    if (manifest.config.includeFiles) {
+      this.log(`  ${chalk.bold('Files')}: ${manifest.files}`);
+    }
+
+    this.log(`\n  Snapshot ${manifest.snapshotId} written to ${outputDir}`);
+    this.log('');
+  }
+}
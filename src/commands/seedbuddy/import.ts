@@ -0,0 +1,365 @@
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import { Connection, Messages } from '@salesforce/core';
+import { action } from '@oclif/core/ux';
+import chalk from 'chalk';
+import {
+  SeederLogger,
+  SeedConfig,
+  SeedResults,
+  ObjectSeedResult,
+  LegacyFileSeedResult,
+  ExecutionOptions,
+  RecordTypeFallback,
+  SnapshotManifest,
+  SnapshotSource,
+  UserMatchKey,
+  PicklistFallback,
+  DEFAULT_DEPENDENCY_DEPTH,
+  RECORD_TYPE_FALLBACKS,
+  PICKLIST_FALLBACKS,
+  ReportFormat,
+  MAX_CONCURRENCY,
+  MAX_FILE_STREAM_THRESHOLD_MB,
+  USER_MATCH_KEYS,
+  REPORT_FORMATS,
+} from '../../lib/types.js';
+import { runSeeder } from '../../lib/seeder.js';
+import { buildRunReport, writeRunReport } from '../../lib/report.js';
+import { describePicklistTranslation } from '../../lib/picklists.js';
+import { loadRunState, defaultRunFilePath, newRunId, resumeExecutionOptions } from '../../lib/checkpoint.js';
+import { loadMaskingRules } from '../../lib/masking.js';
+import { compareSnapshotSchema, loadSnapshot, openSnapshotSource, snapshotSeedConfig } from '../../lib/snapshot.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('sf-cli-seedbuddy', 'seedbuddy.import');
+
+export default class Import extends SfCommand<SeedResults> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    'target-org': Flags.requiredOrg({
+      char: 't',
+      summary: messages.getMessage('flags.target-org.summary'),
+    }),
+    snapshot: Flags.directory({
+      char: 'i',
+      summary: messages.getMessage('flags.snapshot.summary'),
+      required: true,
+      exists: true,
+    }),
+    'dry-run': Flags.boolean({
+      char: 'd',
+      summary: messages.getMessage('flags.dry-run.summary'),
+      default: false,
+    }),
+    bulk: Flags.boolean({
+      summary: messages.getMessage('flags.bulk.summary'),
+      default: false,
+    }),
+    'bulk-threshold': Flags.integer({
+      summary: messages.getMessage('flags.bulk-threshold.summary'),
+      min: 1,
+    }),
+    concurrency: Flags.integer({
+      summary: messages.getMessage('flags.concurrency.summary'),
+      min: 1,
+      max: MAX_CONCURRENCY,
+    }),
+    'user-match': Flags.option({
+      summary: messages.getMessage('flags.user-match.summary'),
+      options: USER_MATCH_KEYS,
+    })(),
+    'user-mapping': Flags.file({
+      summary: messages.getMessage('flags.user-mapping.summary'),
+      exists: true,
+    }),
+    'default-owner': Flags.string({
+      summary: messages.getMessage('flags.default-owner.summary'),
+    }),
+    'picklist-mapping': Flags.file({
+      summary: messages.getMessage('flags.picklist-mapping.summary'),
+      exists: true,
+    }),
+    'picklist-fallback': Flags.option({
+      summary: messages.getMessage('flags.picklist-fallback.summary'),
+      options: PICKLIST_FALLBACKS,
+      default: 'default',
+    })(),
+    'polymorphic-dependencies': Flags.boolean({
+      summary: messages.getMessage('flags.polymorphic-dependencies.summary'),
+      default: false,
+    }),
+    'self-references': Flags.boolean({
+      summary: messages.getMessage('flags.self-references.summary'),
+      default: false,
+    }),
+    'record-type-fallback': Flags.option({
+      summary: messages.getMessage('flags.record-type-fallback.summary'),
+      options: RECORD_TYPE_FALLBACKS,
+      default: 'default',
+    })(),
+    'preserve-file-sharing': Flags.boolean({
+      summary: messages.getMessage('flags.preserve-file-sharing.summary'),
+      default: false,
+    }),
+    'file-versions': Flags.boolean({
+      summary: messages.getMessage('flags.file-versions.summary'),
+      default: false,
+    }),
+    'file-stream-threshold': Flags.integer({
+      summary: messages.getMessage('flags.file-stream-threshold.summary'),
+      min: 1,
+      max: MAX_FILE_STREAM_THRESHOLD_MB,
+    }),
+    'dependency-depth': Flags.integer({
+      summary: messages.getMessage('flags.dependency-depth.summary'),
+      min: 1,
+    }),
+    report: Flags.string({
+      summary: messages.getMessage('flags.report.summary'),
+    }),
+    'report-format': Flags.option({
+      summary: messages.getMessage('flags.report-format.summary'),
+      options: REPORT_FORMATS,
+      dependsOn: ['report'],
+    })(),
+    'run-file': Flags.string({
+      summary: messages.getMessage('flags.run-file.summary'),
+    }),
+    masking: Flags.file({
+      summary: messages.getMessage('flags.masking.summary'),
+      exists: true,
+      exclusive: ['resume'],
+    }),
+    resume: Flags.file({
+      summary: messages.getMessage('flags.resume.summary'),
+      exists: true,
+      exclusive: ['run-file', 'masking'],
+    }),
+  };
+
+  public async run(): Promise<SeedResults> {
+    const { flags, metadata } = await this.parse(Import);
+
+    const logger: SeederLogger = {
+      log: (msg) => this.log(msg),
+      warn: (msg) => this.warn(msg),
+      startSpinner: (msg) => action.start(msg),
+      updateSpinner: (msg) => { action.status = msg; },
+      stopSpinner: (msg) => action.stop(msg),
+      stopSpinnerFail: (msg) => action.stop(msg),
+    };
+
+    const targetConn = flags['target-org'].getConnection();
+    const manifest = loadSnapshot(flags.snapshot);
+    const sourceConn = openSnapshotSource(flags.snapshot, manifest);
+
+    this.log(`Importing snapshot ${manifest.snapshotId} (exported from ${manifest.sourceInstanceUrl} at ${manifest.createdAt})`);
+    await compareSnapshotSchema(sourceConn, targetConn, manifest, logger);
+
+    if (flags.resume) {
+      // Flags actually passed — on resume only these override the run's saved options
+      const givenFlags = Object.fromEntries(
+        Object.entries(flags).filter(([name]) => !metadata.flags[name]?.setFromDefault)
+      );
+      return this.runResume(flags.resume, manifest, sourceConn, targetConn, flags, givenFlags, logger);
+    }
+
+    const seedConfig: SeedConfig = {
+      ...snapshotSeedConfig(manifest),
+      ...(flags.masking ? { masking: loadMaskingRules(flags.masking) } : {}),
+      sourceConn,
+      targetConn,
+      dryRun: flags['dry-run'],
+      logger,
+      ...this.executionOptions(manifest, flags),
+      runFile: flags['run-file'] ?? defaultRunFilePath(newRunId()),
+    };
+
+    return this.execute(seedConfig, logger, flags);
+  }
+
+  private async runResume(
+    resumeFile: string,
+    manifest: SnapshotManifest,
+    sourceConn: SnapshotSource,
+    targetConn: Connection,
+    flags: Record<string, unknown>,
+    givenFlags: Record<string, unknown>,
+    logger: SeederLogger
+  ): Promise<SeedResults> {
+    const resumeState = loadRunState(resumeFile);
+
+    if (resumeState.targetInstanceUrl !== targetConn.instanceUrl) {
+      this.error(
+        `Run file ${resumeFile} was created against target ${resumeState.targetInstanceUrl}, not ${targetConn.instanceUrl}`
+      );
+    }
+    if (resumeState.sourceInstanceUrl !== sourceConn.instanceUrl) {
+      this.error(`Run file ${resumeFile} was not created from snapshot ${manifest.snapshotId}`);
+    }
+
+    const seedConfig: SeedConfig = {
+      ...resumeState.config,
+      sourceConn,
+      targetConn,
+      dryRun: false,
+      logger,
+      ...resumeExecutionOptions(
+        resumeState.options,
+        // The saved depth is already capped by the snapshot; without the flag it stays as it was
+        this.executionOptions(manifest, { 'dependency-depth': resumeState.options?.dependencyDepth, ...givenFlags })
+      ),
+      runFile: resumeFile,
+      resumeState,
+    };
+
+    return this.execute(seedConfig, logger, flags);
+  }
+
+  // Same execution flags as seed; dependencies stop where the export stopped
+  private executionOptions(manifest: SnapshotManifest, flags: Record<string, unknown>): ExecutionOptions {
+    const matchBy = flags['user-match'] as UserMatchKey | undefined;
+    const mappingFile = flags['user-mapping'] as string | undefined;
+    const defaultOwner = flags['default-owner'] as string | undefined;
+    const streamThresholdMb = flags['file-stream-threshold'] as number | undefined;
+    const dependencyDepth = (flags['dependency-depth'] as number | undefined) ?? DEFAULT_DEPENDENCY_DEPTH;
+
+    return {
+      forceBulk: flags['bulk'] as boolean,
+      bulkThreshold: flags['bulk-threshold'] as number | undefined,
+      concurrency: flags['concurrency'] as number | undefined,
+      preserveFileSharing: flags['preserve-file-sharing'] as boolean,
+      includeFileVersions: flags['file-versions'] as boolean,
+      fileStreamThreshold: streamThresholdMb ? streamThresholdMb * 1024 * 1024 : undefined,
+      dependencyDepth: Math.min(dependencyDepth, manifest.dependencyDepth),
+      pullPolymorphicDependencies: flags['polymorphic-dependencies'] as boolean,
+      pullSelfReferences: flags['self-references'] as boolean,
+      recordTypeFallback: flags['record-type-fallback'] as RecordTypeFallback,
+      userMappingOptions: matchBy || mappingFile || defaultOwner ? { matchBy, mappingFile, defaultOwner } : undefined,
+      picklistMappingOptions: {
+        mappingFile: flags['picklist-mapping'] as string | undefined,
+        fallback: flags['picklist-fallback'] as PicklistFallback,
+      },
+    };
+  }
+
+  private async execute(
+    seedConfig: SeedConfig,
+    logger: SeederLogger,
+    flags: Record<string, unknown>
+  ): Promise<SeedResults> {
+    // SIGINT handler
+    let aborted = false;
+    const existingSigintListeners = process.listeners('SIGINT');
+    process.removeAllListeners('SIGINT');
+    const sigintHandler = (): void => {
+      if (aborted) {
+        process.exit(1);
+      }
+      aborted = true;
+      logger.warn('Graceful shutdown requested. Press Ctrl+C again to force quit.');
+    };
+    process.on('SIGINT', sigintHandler);
+
+    const startTime = Date.now();
+    const reportFile = flags['report'] as string | undefined;
+    const format = (flags['report-format'] as ReportFormat | undefined) ?? 'json';
+    let partialResults: SeedResults | undefined;
+
+    try {
+      const results = await runSeeder({
+        ...seedConfig,
+        shouldAbort: () => aborted,
+        onRunFailed: (partial) => { partialResults = partial; },
+      });
+      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+
+      this.displayResults(results, elapsed);
+
+      if (reportFile) {
+        writeRunReport(reportFile, format, buildRunReport('import', seedConfig, results, startTime));
+        this.log(`Report (${format}) written to ${reportFile}`);
+      }
+      return results;
+    } catch (err) {
+      // A run that breaks partway is the one CI most needs a report for
+      if (reportFile && partialResults) {
+        writeRunReport(reportFile, format, buildRunReport('import', seedConfig, partialResults, startTime, err));
+        this.log(`Report (${format}) of the partial run written to ${reportFile}`);
+      }
+      throw err;
+    } finally {
+      process.removeListener('SIGINT', sigintHandler);
+      for (const listener of existingSigintListeners) {
+        process.on('SIGINT', listener as NodeJS.SignalsListener);
+      }
+    }
+  }
+
+  private displayResults(results: SeedResults, elapsed: string): void {
+    this.log('\n' + chalk.bold.cyan('═══ IMPORT RESULTS ═══'));
+
+    if (results.dryRun) {
+      this.log(chalk.yellow.bold('  [DRY RUN — no records were actually created]'));
+    }
+
+    this.log(chalk.gray(`  Completed in ${elapsed}s\n`));
+
+    const printResult = (r: ObjectSeedResult): void => {
+      const indent = '  '.repeat(r.depth ?? 0);
+      const matched = r.matched !== undefined ? ` matched=${r.matched}` : '';
+      this.log(`  ${indent}${chalk.bold(r.objectApiName)}: queried=${r.queried} inserted=${r.inserted} updated=${r.updated}${matched} failed=${r.failed} skipped=${r.skipped}`);
+    };
+
+    printResult(results.coreObject);
+    for (const r of results.related) printResult(r);
+    for (const activities of [results.tasks, results.events]) {
+      if (!activities) continue;
+      printResult(activities);
+      if (activities.relations) printResult(activities.relations);
+    }
+
+    if (results.files) {
+      const f = results.files;
+      const versions = f.versionsUploaded !== undefined ? ` versions=${f.versionsUploaded}` : '';
+      this.log(`  ${chalk.bold('Files')}: found=${f.filesFound} uploaded=${f.filesUploaded}${versions} failed=${f.filesFailed} links=${f.linksCreated}`);
+    }
+
+    const printLegacy = (label: string, r: LegacyFileSeedResult): void => {
+      const converted = r.convertedTo ? ` (as ${r.convertedTo})` : '';
+      this.log(`  ${chalk.bold(label)}: found=${r.found} inserted=${r.inserted} failed=${r.failed}${converted}`);
+    };
+    if (results.attachments) printLegacy('Attachments', results.attachments);
+    if (results.notes) printLegacy('Notes', results.notes);
+    if (results.feed) {
+      printResult(results.feed.posts);
+      printResult(results.feed.comments);
+    }
+
+    if (results.errors.length > 0) {
+      this.log(chalk.red(`\n  ${results.errors.length} error(s) occurred. First 5:`));
+      for (const err of results.errors.slice(0, 5)) {
+        this.log(chalk.red(`    [${err.object}] ${err.stage}: ${err.error}`));
+      }
+    }
+
+    if (results.unmatchedUsers && results.unmatchedUsers.length > 0) {
+      this.log(chalk.yellow(`\n  ${results.unmatchedUsers.length} source user(s) had no target match:`));
+      for (const u of results.unmatchedUsers) {
+        this.log(chalk.yellow(`    ${u.username} (${u.name}) — ${u.references} reference(s)`));
+      }
+    }
+
+    if (results.translatedPicklistValues && results.translatedPicklistValues.length > 0) {
+      this.log(chalk.yellow(`\n  ${results.translatedPicklistValues.length} picklist value(s) were translated:`));
+      for (const t of results.translatedPicklistValues) {
+        this.log(chalk.yellow(`    ${describePicklistTranslation(t)}`));
+      }
+    }
+
+    this.log('');
+  }
+}
@@ -0,0 +1,137 @@
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import { Messages } from '@salesforce/core';
+import { action } from '@oclif/core/ux';
+import {
+  SeederLogger,
+  PersistedSeedConfig,
+  PicklistFallback,
+  PreflightReport,
+  RelatedObjectConfig,
+  PICKLIST_FALLBACKS,
+} from '../../lib/types.js';
+import { addRelationshipPath, validateTree } from '../../lib/tree.js';
+import { loadPlan, resolvePlan } from '../../lib/plan.js';
+import { logPreflightReport, runPreflight } from '../../lib/preflight.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('sf-cli-seedbuddy', 'seedbuddy.preflight');
+
+export default class Preflight extends SfCommand<PreflightReport> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    'source-org': Flags.requiredOrg({
+      char: 's',
+      summary: messages.getMessage('flags.source-org.summary'),
+    }),
+    'target-org': Flags.requiredOrg({
+      char: 't',
+      summary: messages.getMessage('flags.target-org.summary'),
+    }),
+    object: Flags.string({
+      char: 'o',
+      summary: messages.getMessage('flags.object.summary'),
+      exactlyOne: ['object', 'plan'],
+    }),
+    children: Flags.string({
+      char: 'c',
+      summary: messages.getMessage('flags.children.summary'),
+    }),
+    'include-tasks': Flags.boolean({
+      summary: messages.getMessage('flags.include-tasks.summary'),
+      default: false,
+    }),
+    'include-events': Flags.boolean({
+      summary: messages.getMessage('flags.include-events.summary'),
+      default: false,
+    }),
+    count: Flags.string({
+      char: 'n',
+      summary: messages.getMessage('flags.count.summary'),
+      default: '10',
+    }),
+    where: Flags.string({
+      char: 'w',
+      summary: messages.getMessage('flags.where.summary'),
+    }),
+    plan: Flags.file({
+      summary: messages.getMessage('flags.plan.summary'),
+      exists: true,
+      exclusive: ['object', 'children', 'where'],
+    }),
+    'sample-size': Flags.integer({
+      summary: messages.getMessage('flags.sample-size.summary'),
+      min: 1,
+    }),
+    'polymorphic-dependencies': Flags.boolean({
+      summary: messages.getMessage('flags.polymorphic-dependencies.summary'),
+      default: false,
+    }),
+    'picklist-mapping': Flags.file({
+      summary: messages.getMessage('flags.picklist-mapping.summary'),
+      exists: true,
+    }),
+    'picklist-fallback': Flags.option({
+      summary: messages.getMessage('flags.picklist-fallback.summary'),
+      options: PICKLIST_FALLBACKS,
+      default: 'default',
+    })(),
+  };
+
+  public async run(): Promise<PreflightReport> {
+    const { flags } = await this.parse(Preflight);
+
+    const logger: SeederLogger = {
+      log: (msg) => this.log(msg),
+      warn: (msg) => this.warn(msg),
+      startSpinner: (msg) => action.start(msg),
+      updateSpinner: (msg) => { action.status = msg; },
+      stopSpinner: (msg) => action.stop(msg),
+      stopSpinnerFail: (msg) => action.stop(msg),
+    };
+
+    const sourceConn = flags['source-org'].getConnection();
+    const targetConn = flags['target-org'].getConnection();
+    let config: PersistedSeedConfig;
+
+    if (flags.plan) {
+      logger.startSpinner(`Resolving plan ${flags.plan}...`);
+      config = await resolvePlan(sourceConn, loadPlan(flags.plan));
+      logger.stopSpinner(`Plan resolved: ${config.coreObject.objectApiName}`);
+    } else {
+      const objectApiName = flags.object!;
+      const children: RelatedObjectConfig[] = [];
+      const childPaths = (flags.children ?? '').split(',').map((s) => s.trim()).filter(Boolean);
+      for (const childPath of childPaths) {
+        const warning = await addRelationshipPath(sourceConn, objectApiName, children, childPath);
+        if (warning) logger.warn(`${warning} — skipping ${childPath}`);
+      }
+      validateTree(objectApiName, children);
+
+      config = {
+        coreObject: { objectApiName },
+        children,
+        includeTasks: flags['include-tasks'],
+        includeEvents: flags['include-events'],
+        includeFiles: false,
+        recordCount: flags.count.toLowerCase() === 'all' ? 'All' : parseInt(flags.count, 10),
+        whereClause: flags.where || undefined,
+      };
+    }
+
+    const report = await runPreflight(sourceConn, targetConn, config, logger, {
+      sampleSize: flags['sample-size'],
+      pullPolymorphicDependencies: flags['polymorphic-dependencies'],
+      picklistMappingOptions: {
+        mappingFile: flags['picklist-mapping'],
+        fallback: flags['picklist-fallback'] as PicklistFallback,
+      },
+    });
+
+    logPreflightReport(report, logger);
+    this.log('');
+    return report;
+  }
+}
@@ -0,0 +1,126 @@
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import { Messages } from '@salesforce/core';
+import { action } from '@oclif/core/ux';
+import chalk from 'chalk';
+import { SeederLogger, RetryResults } from '../../lib/types.js';
+import { loadRunState } from '../../lib/checkpoint.js';
+import { runRetry } from '../../lib/retry.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('sf-cli-seedbuddy', 'seedbuddy.retry');
+
+export default class Retry extends SfCommand<RetryResults | void> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    'target-org': Flags.requiredOrg({
+      char: 't',
+      summary: messages.getMessage('flags.target-org.summary'),
+    }),
+    'run-file': Flags.file({
+      char: 'r',
+      summary: messages.getMessage('flags.run-file.summary'),
+      required: true,
+      exists: true,
+    }),
+    object: Flags.string({
+      char: 'o',
+      summary: messages.getMessage('flags.object.summary'),
+      multiple: true,
+      delimiter: ',',
+    }),
+    'dry-run': Flags.boolean({
+      char: 'd',
+      summary: messages.getMessage('flags.dry-run.summary'),
+      default: false,
+    }),
+  };
+
+  public async run(): Promise<RetryResults | void> {
+    const { flags } = await this.parse(Retry);
+
+    const logger: SeederLogger = {
+      log: (msg) => this.log(msg),
+      warn: (msg) => this.warn(msg),
+      startSpinner: (msg) => action.start(msg),
+      updateSpinner: (msg) => { action.status = msg; },
+      stopSpinner: (msg) => action.stop(msg),
+      stopSpinnerFail: (msg) => action.stop(msg),
+    };
+
+    const targetConn = flags['target-org'].getConnection();
+    const runFile = flags['run-file'];
+    const state = loadRunState(runFile);
+
+    if (state.targetInstanceUrl !== targetConn.instanceUrl) {
+      this.error(`Run file ${runFile} was created against target ${state.targetInstanceUrl}, not ${targetConn.instanceUrl}`);
+    }
+
+    if (!state.failedRecords) {
+      this.error(`Run file ${runFile} predates failed record tracking — re-run the seed to retry its failures`);
+    }
+    if (state.failedRecords.length === 0) {
+      this.log('Run file lists no failed records — nothing to retry.');
+      return;
+    }
+
+    // SIGINT handler
+    let aborted = false;
+    const existingSigintListeners = process.listeners('SIGINT');
+    process.removeAllListeners('SIGINT');
+    const sigintHandler = (): void => {
+      if (aborted) {
+        process.exit(1);
+      }
+      aborted = true;
+      logger.warn('Graceful shutdown requested. Press Ctrl+C again to force quit.');
+    };
+    process.on('SIGINT', sigintHandler);
+
+    const startTime = Date.now();
+
+    try {
+      const results = await runRetry(
+        targetConn, runFile, state, logger, flags['dry-run'], flags.object, () => aborted
+      );
+      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+
+      this.displayResults(results, runFile, elapsed);
+      return results;
+    } finally {
+      process.removeListener('SIGINT', sigintHandler);
+      for (const listener of existingSigintListeners) {
+        process.on('SIGINT', listener as NodeJS.SignalsListener);
+      }
+    }
+  }
+
+  private displayResults(results: RetryResults, runFile: string, elapsed: string): void {
+    this.log('\n' + chalk.bold.cyan('═══ RETRY RESULTS ═══'));
+
+    if (results.dryRun) {
+      this.log(chalk.yellow.bold('  [DRY RUN — no records were actually sent]'));
+    }
+
+    this.log(chalk.gray(`  Completed in ${elapsed}s\n`));
+
+    for (const r of results.objects) {
+      this.log(`  ${chalk.bold(r.objectApiName)}: attempted=${r.attempted} succeeded=${r.succeeded} failed=${r.failed}`);
+    }
+
+    if (results.errors.length > 0) {
+      this.log(chalk.red(`\n  ${results.errors.length} error(s) occurred. First 5:`));
+      for (const err of results.errors.slice(0, 5)) {
+        this.log(chalk.red(`    [${err.object}] ${err.stage}${err.sourceId ? ` (${err.sourceId})` : ''}: ${err.error}`));
+      }
+    }
+
+    if (results.remaining > 0 && !results.dryRun) {
+      this.log(chalk.yellow(`\n  ${results.remaining} record(s) still failing — fix them in ${runFile} or the target org and retry again`));
+    }
+
+    this.log('');
+  }
+}
@@ -0,0 +1,128 @@
+import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
+import { Messages } from '@salesforce/core';
+import { action } from '@oclif/core/ux';
+import chalk from 'chalk';
+import { SeederLogger, RollbackResults } from '../../lib/types.js';
+import { loadManifest } from '../../lib/manifest.js';
+import { runRollback } from '../../lib/rollback.js';
+
+Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
+const messages = Messages.loadMessages('sf-cli-seedbuddy', 'seedbuddy.rollback');
+
+export default class Rollback extends SfCommand<RollbackResults | void> {
+  public static readonly summary = messages.getMessage('summary');
+  public static readonly description = messages.getMessage('description');
+  public static readonly examples = messages.getMessages('examples');
+
+  public static readonly flags = {
+    'target-org': Flags.requiredOrg({
+      char: 't',
+      summary: messages.getMessage('flags.target-org.summary'),
+    }),
+    manifest: Flags.file({
+      char: 'm',
+      summary: messages.getMessage('flags.manifest.summary'),
+      required: true,
+      exists: true,
+    }),
+    'no-prompt': Flags.boolean({
+      char: 'p',
+      summary: messages.getMessage('flags.no-prompt.summary'),
+      default: false,
+    }),
+    'dry-run': Flags.boolean({
+      char: 'd',
+      summary: messages.getMessage('flags.dry-run.summary'),
+      default: false,
+    }),
+  };
+
+  public async run(): Promise<RollbackResults | void> {
+    const { flags } = await this.parse(Rollback);
+
+    const logger: SeederLogger = {
+      log: (msg) => this.log(msg),
+      warn: (msg) => this.warn(msg),
+      startSpinner: (msg) => action.start(msg),
+      updateSpinner: (msg) => { action.status = msg; },
+      stopSpinner: (msg) => action.stop(msg),
+      stopSpinnerFail: (msg) => action.stop(msg),
+    };
+
+    const targetConn = flags['target-org'].getConnection();
+    const manifest = loadManifest(flags.manifest);
+
+    if (manifest.targetInstanceUrl !== targetConn.instanceUrl) {
+      this.error(
+        `Manifest ${flags.manifest} was created against ${manifest.targetInstanceUrl}, not ${targetConn.instanceUrl}`
+      );
+    }
+
+    const total = manifest.objects.reduce((sum, e) => sum + e.targetIds.length, 0);
+    if (total === 0) {
+      this.log('Manifest lists no created records — nothing to roll back.');
+      return;
+    }
+
+    if (!flags['dry-run'] && !flags['no-prompt']) {
+      const confirmed = await this.confirm({
+        message: `Delete ${total} record(s) across ${manifest.objects.length} object(s) from ${targetConn.instanceUrl}?`,
+      });
+      if (!confirmed) {
+        this.log(chalk.yellow('Cancelled.'));
+        return;
+      }
+    }
+
+    // SIGINT handler
+    let aborted = false;
+    const existingSigintListeners = process.listeners('SIGINT');
+    process.removeAllListeners('SIGINT');
+    const sigintHandler = (): void => {
+      if (aborted) {
+        process.exit(1);
+      }
+      aborted = true;
+      logger.warn('Graceful shutdown requested. Press Ctrl+C again to force quit.');
+    };
+    process.on('SIGINT', sigintHandler);
+
+    const startTime = Date.now();
+
+    try {
+      const results = await runRollback(targetConn, manifest, logger, flags['dry-run'], () => aborted);
+      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+
+      this.displayResults(results, elapsed);
+      return results;
+    } finally {
+      process.removeListener('SIGINT', sigintHandler);
+      for (const listener of existingSigintListeners) {
+        process.on('SIGINT', listener as NodeJS.SignalsListener);
+      }
+    }
+  }
+
+  private displayResults(results: RollbackResults, elapsed: string): void {
+    this.log('\n' + chalk.bold.cyan('═══ ROLLBACK RESULTS ═══'));
+
+    if (results.dryRun) {
+      this.log(chalk.yellow.bold('  [DRY RUN — no records were actually deleted]'));
+    }
+
+    this.log(chalk.gray(`  Completed in ${elapsed}s\n`));
+
+    for (const r of results.objects) {
+      this.log(`  ${chalk.bold(r.objectApiName)} (${r.tier}): requested=${r.requested} deleted=${r.deleted} failed=${r.failed}`);
+    }
+
+    if (results.errors.length > 0) {
+      this.log(chalk.red(`\n  ${results.errors.length} error(s) occurred. First 5:`));
+      for (const err of results.errors.slice(0, 5)) {
+        this.log(chalk.red(`    [${err.object}] ${err.stage}: ${err.error}`));
+      }
+    }
+
+    this.log('');
+  }
+}
@@ -2,9 +2,35 @@ import { SfCommand, Flags } from '@salesforce/sf-plugins-core';
 import { Messages } from '@salesforce/core';
 import { action } from '@oclif/core/ux';
 import chalk from 'chalk';
-import { SeederLogger, SeedConfig, SeedResults, ChildObjectConfig } from '../../lib/types.js';
-import { getObjectFields, getChildRelationships } from '../../lib/schema.js';
+import {
+  SeederLogger,
+  SeedConfig,
+  SeedResults,
+  ObjectSeedResult,
+  LegacyFileSeedResult,
+  RelatedObjectConfig,
+  ExecutionOptions,
+  RecordTypeFallback,
+  UserMatchKey,
+  PicklistFallback,
+  RECORD_TYPE_FALLBACKS,
+  PICKLIST_FALLBACKS,
+  ReportFormat,
+  MAX_CONCURRENCY,
+  MAX_FILE_STREAM_THRESHOLD_MB,
+  USER_MATCH_KEYS,
+  REPORT_FORMATS,
+} from '../../lib/types.js';
+import { getChildRelationships } from '../../lib/schema.js';
+import { addRelationshipPath, validateTree } from '../../lib/tree.js';
 import { runSeeder } from '../../lib/seeder.js';
+import { buildRunReport, writeRunReport } from '../../lib/report.js';
+import { logPreflightReport, runPreflight } from '../../lib/preflight.js';
+import { describePicklistTranslation } from '../../lib/picklists.js';
+import { loadRunState, defaultRunFilePath, newRunId, resumeExecutionOptions } from '../../lib/checkpoint.js';
+import { loadPlan, resolvePlan } from '../../lib/plan.js';
+import { loadMaskingRules } from '../../lib/masking.js';
+import { parseMatchKeys } from '../../lib/match.js';
 import { runInteractive, InteractivePrefilledFlags } from '../../lib/interactive.js';
 
 Messages.importMessagesDirectoryFromMetaUrl(import.meta.url);
@@ -50,6 +76,35 @@ export default class Seed extends SfCommand<SeedResults | void> {
       summary: messages.getMessage('flags.include-files.summary'),
       default: false,
     }),
+    'include-attachments': Flags.boolean({
+      summary: messages.getMessage('flags.include-attachments.summary'),
+      default: false,
+    }),
+    'include-notes': Flags.boolean({
+      summary: messages.getMessage('flags.include-notes.summary'),
+      default: false,
+    }),
+    'convert-legacy-files': Flags.boolean({
+      summary: messages.getMessage('flags.convert-legacy-files.summary'),
+      default: false,
+    }),
+    'include-feed': Flags.boolean({
+      summary: messages.getMessage('flags.include-feed.summary'),
+      default: false,
+    }),
+    'preserve-file-sharing': Flags.boolean({
+      summary: messages.getMessage('flags.preserve-file-sharing.summary'),
+      default: false,
+    }),
+    'file-versions': Flags.boolean({
+      summary: messages.getMessage('flags.file-versions.summary'),
+      default: false,
+    }),
+    'file-stream-threshold': Flags.integer({
+      summary: messages.getMessage('flags.file-stream-threshold.summary'),
+      min: 1,
+      max: MAX_FILE_STREAM_THRESHOLD_MB,
+    }),
     count: Flags.string({
       char: 'n',
       summary: messages.getMessage('flags.count.summary'),
@@ -63,15 +118,104 @@ export default class Seed extends SfCommand<SeedResults | void> {
       char: 'u',
       summary: messages.getMessage('flags.upsert-field.summary'),
     }),
+    match: Flags.string({
+      summary: messages.getMessage('flags.match.summary'),
+      multiple: true,
+    }),
+    'update-matched': Flags.boolean({
+      summary: messages.getMessage('flags.update-matched.summary'),
+      // No default: oclif checks dependsOn against defaulted flags too
+      dependsOn: ['match'],
+    }),
     'dry-run': Flags.boolean({
       char: 'd',
       summary: messages.getMessage('flags.dry-run.summary'),
       default: false,
     }),
+    bulk: Flags.boolean({
+      summary: messages.getMessage('flags.bulk.summary'),
+      default: false,
+    }),
+    'bulk-threshold': Flags.integer({
+      summary: messages.getMessage('flags.bulk-threshold.summary'),
+      min: 1,
+    }),
+    concurrency: Flags.integer({
+      summary: messages.getMessage('flags.concurrency.summary'),
+      min: 1,
+      max: MAX_CONCURRENCY,
+    }),
+    'user-match': Flags.option({
+      summary: messages.getMessage('flags.user-match.summary'),
+      options: USER_MATCH_KEYS,
+    })(),
+    'user-mapping': Flags.file({
+      summary: messages.getMessage('flags.user-mapping.summary'),
+      exists: true,
+    }),
+    'default-owner': Flags.string({
+      summary: messages.getMessage('flags.default-owner.summary'),
+    }),
+    'picklist-mapping': Flags.file({
+      summary: messages.getMessage('flags.picklist-mapping.summary'),
+      exists: true,
+    }),
+    'picklist-fallback': Flags.option({
+      summary: messages.getMessage('flags.picklist-fallback.summary'),
+      options: PICKLIST_FALLBACKS,
+      default: 'default',
+    })(),
+    'polymorphic-dependencies': Flags.boolean({
+      summary: messages.getMessage('flags.polymorphic-dependencies.summary'),
+      default: false,
+    }),
+    'self-references': Flags.boolean({
+      summary: messages.getMessage('flags.self-references.summary'),
+      default: false,
+    }),
+    'record-type-fallback': Flags.option({
+      summary: messages.getMessage('flags.record-type-fallback.summary'),
+      options: RECORD_TYPE_FALLBACKS,
+      default: 'default',
+    })(),
+    'dependency-depth': Flags.integer({
+      summary: messages.getMessage('flags.dependency-depth.summary'),
+      min: 1,
+    }),
+    report: Flags.string({
+      summary: messages.getMessage('flags.report.summary'),
+    }),
+    'report-format': Flags.option({
+      summary: messages.getMessage('flags.report-format.summary'),
+      options: REPORT_FORMATS,
+      dependsOn: ['report'],
+    })(),
+    'run-file': Flags.string({
+      summary: messages.getMessage('flags.run-file.summary'),
+    }),
+    'skip-preflight': Flags.boolean({
+      summary: messages.getMessage('flags.skip-preflight.summary'),
+      default: false,
+    }),
+    masking: Flags.file({
+      summary: messages.getMessage('flags.masking.summary'),
+      exists: true,
+      exclusive: ['plan', 'resume'],
+    }),
+    plan: Flags.file({
+      summary: messages.getMessage('flags.plan.summary'),
+      exists: true,
+      exclusive: ['object', 'children', 'grandchildren', 'where', 'upsert-field', 'match', 'resume', 'masking'],
+    }),
+    resume: Flags.file({
+      summary: messages.getMessage('flags.resume.summary'),
+      exists: true,
+      exclusive: ['object', 'children', 'grandchildren', 'where', 'upsert-field', 'match', 'run-file', 'masking'],
+    }),
   };
 
   public async run(): Promise<SeedResults | void> {
-    const { flags } = await this.parse(Seed);
+    const { flags, metadata } = await this.parse(Seed);
 
     const logger: SeederLogger = {
       log: (msg) => this.log(msg),
@@ -82,10 +226,15 @@ export default class Seed extends SfCommand<SeedResults | void> {
       stopSpinnerFail: (msg) => action.stop(msg),
     };
 
-    const hasAllRequired = flags['source-org'] && flags['target-org'] && flags.object;
+    const hasAllRequired =
+      flags['source-org'] && flags['target-org'] && (flags.object || flags.resume || flags.plan);
 
     if (hasAllRequired) {
-      return this.runFlagMode(flags, logger);
+      // Flags actually passed — on resume only these override the run's saved options
+      const givenFlags = Object.fromEntries(
+        Object.entries(flags).filter(([name]) => !metadata.flags[name]?.setFromDefault)
+      );
+      return this.runFlagMode(flags, givenFlags, logger);
     } else {
       const prefilled: InteractivePrefilledFlags = {};
 
@@ -97,6 +246,10 @@ export default class Seed extends SfCommand<SeedResults | void> {
         prefilled.targetConn = flags['target-org'].getConnection();
         prefilled.targetLabel = `${flags['target-org'].getUsername() ?? ''} (${prefilled.targetConn.instanceUrl})`;
       }
+      if (flags.report) {
+        prefilled.report = { filePath: flags.report, format: flags['report-format'] ?? 'json' };
+      }
+      prefilled.skipPreflight = flags['skip-preflight'];
 
       await runInteractive(prefilled, logger);
     }
@@ -104,12 +257,24 @@ export default class Seed extends SfCommand<SeedResults | void> {
 
   private async runFlagMode(
     flags: Record<string, unknown>,
+    givenFlags: Record<string, unknown>,
     logger: SeederLogger
   ): Promise<SeedResults> {
     const sourceOrg = flags['source-org'] as { getConnection: () => import('@salesforce/core').Connection };
     const targetOrg = flags['target-org'] as { getConnection: () => import('@salesforce/core').Connection };
     const sourceConn = sourceOrg.getConnection();
     const targetConn = targetOrg.getConnection();
+
+    const resumeFile = flags['resume'] as string | undefined;
+    if (resumeFile) {
+      return this.runResume(resumeFile, sourceConn, targetConn, flags, givenFlags, logger);
+    }
+
+    const planFile = flags['plan'] as string | undefined;
+    if (planFile) {
+      return this.runPlan(planFile, sourceConn, targetConn, flags, logger);
+    }
+
     const objectApiName = flags['object'] as string;
     const dryRun = flags['dry-run'] as boolean;
     const upsertField = flags['upsert-field'] as string | undefined;
@@ -119,44 +284,20 @@ export default class Seed extends SfCommand<SeedResults | void> {
     const recordCount: number | 'All' =
       countStr.toLowerCase() === 'all' ? 'All' : parseInt(countStr, 10);
 
-    // Parse children flag
+    // Parse children flag — each entry is a path down the tree (e.g. Opportunity/Quote/QuoteLineItem)
     const childrenStr = flags['children'] as string | undefined;
-    const selectedChildren: ChildObjectConfig[] = [];
+    const selectedChildren: RelatedObjectConfig[] = [];
 
     if (childrenStr) {
-      const childNames = childrenStr.split(',').map((s) => s.trim());
-
-      for (const childName of childNames) {
-        // Auto-detect the lookup field by describing the child object
-        const childRels = await getChildRelationships(sourceConn, objectApiName);
-        const rel = childRels.find((r) => r.childSObject === childName);
-
-        if (rel) {
-          selectedChildren.push({
-            objectApiName: childName,
-            lookupField: rel.field,
-            grandchildren: [],
-          });
-        } else {
-          // Try describing the child to find a lookup to the parent
-          const childFields = await getObjectFields(sourceConn, childName);
-          const lookupField = childFields.find(
-            (f) => f.referenceTo.includes(objectApiName) && f.createable
-          );
-          if (lookupField) {
-            selectedChildren.push({
-              objectApiName: childName,
-              lookupField: lookupField.name,
-              grandchildren: [],
-            });
-          } else {
-            logger.warn(`Could not find lookup from ${childName} to ${objectApiName} — skipping`);
-          }
-        }
+      const childPaths = childrenStr.split(',').map((s) => s.trim()).filter(Boolean);
+
+      for (const childPath of childPaths) {
+        const warning = await addRelationshipPath(sourceConn, objectApiName, selectedChildren, childPath);
+        if (warning) logger.warn(`${warning} — skipping ${childPath}`);
       }
     }
 
-    // Parse grandchildren flag
+    // Parse grandchildren flag — shorthand for attaching to whichever child has the relationship
     const grandchildrenStr = flags['grandchildren'] as string | undefined;
     if (grandchildrenStr && selectedChildren.length > 0) {
       const gcNames = grandchildrenStr.split(',').map((s) => s.trim());
@@ -167,10 +308,10 @@ export default class Seed extends SfCommand<SeedResults | void> {
           const childRels = await getChildRelationships(sourceConn, child.objectApiName);
           const rel = childRels.find((r) => r.childSObject === gcName);
           if (rel) {
-            child.grandchildren.push({
+            child.children.push({
               objectApiName: gcName,
               lookupField: rel.field,
-              parentChildObject: child.objectApiName,
+              children: [],
             });
             break;
           }
@@ -178,6 +319,165 @@ export default class Seed extends SfCommand<SeedResults | void> {
       }
     }
 
+    validateTree(objectApiName, selectedChildren);
+
+    // Match keys apply to the core object and to every tree node of the named object
+    const matchKeys = parseMatchKeys(
+      (flags['match'] as string[] | undefined) ?? [],
+      (flags['update-matched'] as boolean | undefined) ?? false
+    );
+    const coreMatchKey = matchKeys.get(objectApiName);
+    if (coreMatchKey && upsertField) {
+      this.error(`--match ${objectApiName}:… cannot be combined with --upsert-field`);
+    }
+    const unused = new Set([...matchKeys.keys()].filter((obj) => obj !== objectApiName));
+    const assignMatchKeys = (nodes: RelatedObjectConfig[]): void => {
+      for (const node of nodes) {
+        node.matchKey = matchKeys.get(node.objectApiName);
+        unused.delete(node.objectApiName);
+        assignMatchKeys(node.children);
+      }
+    };
+    assignMatchKeys(selectedChildren);
+    if (unused.size > 0) {
+      this.error(`--match names object(s) that are not being seeded: ${[...unused].join(', ')}`);
+    }
+
+    const seedConfig: SeedConfig = {
+      sourceConn,
+      targetConn,
+      coreObject: {
+        objectApiName,
+        externalIdField: upsertField,
+        matchKey: coreMatchKey,
+      },
+      children: selectedChildren,
+      includeTasks: flags['include-tasks'] as boolean,
+      includeEvents: flags['include-events'] as boolean,
+      includeFiles: flags['include-files'] as boolean,
+      includeAttachments: flags['include-attachments'] as boolean,
+      includeNotes: flags['include-notes'] as boolean,
+      convertLegacyFiles: flags['convert-legacy-files'] as boolean,
+      includeFeed: flags['include-feed'] as boolean,
+      recordCount,
+      whereClause: (flags['where'] as string) || undefined,
+      masking: flags['masking'] ? loadMaskingRules(flags['masking'] as string) : undefined,
+      dryRun,
+      logger,
+      ...this.executionOptions(flags),
+      runFile: (flags['run-file'] as string | undefined) ?? defaultRunFilePath(newRunId()),
+    };
+
+    return this.execute(seedConfig, logger, flags);
+  }
+
+  private async runPlan(
+    planFile: string,
+    sourceConn: import('@salesforce/core').Connection,
+    targetConn: import('@salesforce/core').Connection,
+    flags: Record<string, unknown>,
+    logger: SeederLogger
+  ): Promise<SeedResults> {
+    const plan = loadPlan(planFile);
+
+    logger.startSpinner(`Resolving plan ${planFile}...`);
+    const planConfig = await resolvePlan(sourceConn, plan);
+    logger.stopSpinner(`Plan resolved: ${planConfig.coreObject.objectApiName}`);
+
+    const seedConfig: SeedConfig = {
+      ...planConfig,
+      sourceConn,
+      targetConn,
+      dryRun: flags['dry-run'] as boolean,
+      logger,
+      ...this.executionOptions(flags),
+      runFile: (flags['run-file'] as string | undefined) ?? defaultRunFilePath(newRunId()),
+    };
+
+    return this.execute(seedConfig, logger, flags);
+  }
+
+  private async runResume(
+    resumeFile: string,
+    sourceConn: import('@salesforce/core').Connection,
+    targetConn: import('@salesforce/core').Connection,
+    flags: Record<string, unknown>,
+    givenFlags: Record<string, unknown>,
+    logger: SeederLogger
+  ): Promise<SeedResults> {
+    const resumeState = loadRunState(resumeFile);
+
+    if (resumeState.targetInstanceUrl !== targetConn.instanceUrl) {
+      this.error(
+        `Run file ${resumeFile} was created against target ${resumeState.targetInstanceUrl}, not ${targetConn.instanceUrl}`
+      );
+    }
+    // ID maps are keyed by source record IDs — another org's IDs match nothing
+    if (resumeState.sourceInstanceUrl !== sourceConn.instanceUrl) {
+      this.error(
+        `Run file ${resumeFile} was created against source ${resumeState.sourceInstanceUrl}, not ${sourceConn.instanceUrl}`
+      );
+    }
+
+    const seedConfig: SeedConfig = {
+      ...resumeState.config,
+      sourceConn,
+      targetConn,
+      dryRun: false,
+      logger,
+      ...resumeExecutionOptions(resumeState.options, this.executionOptions(givenFlags)),
+      runFile: resumeFile,
+      resumeState,
+    };
+
+    return this.execute(seedConfig, logger, flags);
+  }
+
+  // Flags that shape how a run executes — shared by flag, plan and resume modes
+  private executionOptions(flags: Record<string, unknown>): ExecutionOptions {
+    const matchBy = flags['user-match'] as UserMatchKey | undefined;
+    const mappingFile = flags['user-mapping'] as string | undefined;
+    const defaultOwner = flags['default-owner'] as string | undefined;
+    const streamThresholdMb = flags['file-stream-threshold'] as number | undefined;
+
+    return {
+      forceBulk: flags['bulk'] as boolean,
+      bulkThreshold: flags['bulk-threshold'] as number | undefined,
+      concurrency: flags['concurrency'] as number | undefined,
+      preserveFileSharing: flags['preserve-file-sharing'] as boolean,
+      includeFileVersions: flags['file-versions'] as boolean,
+      fileStreamThreshold: streamThresholdMb ? streamThresholdMb * 1024 * 1024 : undefined,
+      dependencyDepth: flags['dependency-depth'] as number | undefined,
+      pullPolymorphicDependencies: flags['polymorphic-dependencies'] as boolean,
+      pullSelfReferences: flags['self-references'] as boolean,
+      recordTypeFallback: flags['record-type-fallback'] as RecordTypeFallback,
+      userMappingOptions: matchBy || mappingFile || defaultOwner ? { matchBy, mappingFile, defaultOwner } : undefined,
+      picklistMappingOptions: {
+        mappingFile: flags['picklist-mapping'] as string | undefined,
+        fallback: flags['picklist-fallback'] as PicklistFallback,
+      },
+    };
+  }
+
+  private async execute(
+    seedConfig: SeedConfig,
+    logger: SeederLogger,
+    flags: Record<string, unknown>
+  ): Promise<SeedResults> {
+    // A resumed run has already written to the target — its schema was checked the first time
+    if (!flags['skip-preflight'] && !seedConfig.resumeState) {
+      const preflight = await runPreflight(seedConfig.sourceConn, seedConfig.targetConn, seedConfig, logger, {
+        pullPolymorphicDependencies: seedConfig.pullPolymorphicDependencies,
+        picklistMappingOptions: seedConfig.picklistMappingOptions,
+      });
+      logPreflightReport(preflight, logger);
+      if (preflight.blocking > 0) {
+        this.error(
+          `Preflight found ${preflight.blocking} blocking issue(s) — fix them, or re-run with --skip-preflight to seed anyway`
+        );
+      }
+    }
+
     // SIGINT handler
     let aborted = false;
     const existingSigintListeners = process.listeners('SIGINT');
@@ -192,31 +492,32 @@ export default class Seed extends SfCommand<SeedResults | void> {
     process.on('SIGINT', sigintHandler);
 
     const startTime = Date.now();
+    const reportFile = flags['report'] as string | undefined;
+    const format = (flags['report-format'] as ReportFormat | undefined) ?? 'json';
+    let partialResults: SeedResults | undefined;
 
     try {
-      const seedConfig: SeedConfig = {
-        sourceConn,
-        targetConn,
-        coreObject: {
-          objectApiName,
-          externalIdField: upsertField,
-        },
-        children: selectedChildren,
-        includeTasks: flags['include-tasks'] as boolean,
-        includeEvents: flags['include-events'] as boolean,
-        includeFiles: flags['include-files'] as boolean,
-        recordCount,
-        whereClause: (flags['where'] as string) || undefined,
-        dryRun,
-        logger,
+      const results = await runSeeder({
+        ...seedConfig,
         shouldAbort: () => aborted,
-      };
-
-      const results = await runSeeder(seedConfig);
+        onRunFailed: (partial) => { partialResults = partial; },
+      });
       const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
 
       this.displayResults(results, elapsed);
+
+      if (reportFile) {
+        writeRunReport(reportFile, format, buildRunReport('seed', seedConfig, results, startTime));
+        this.log(`Report (${format}) written to ${reportFile}`);
+      }
       return results;
+    } catch (err) {
+      // A run that breaks partway is the one CI most needs a report for
+      if (reportFile && partialResults) {
+        writeRunReport(reportFile, format, buildRunReport('seed', seedConfig, partialResults, startTime, err));
+        this.log(`Report (${format}) of the partial run written to ${reportFile}`);
+      }
+      throw err;
     } finally {
       process.removeListener('SIGINT', sigintHandler);
       for (const listener of existingSigintListeners) {
@@ -234,19 +535,35 @@ export default class Seed extends SfCommand<SeedResults | void> {
 
     this.log(chalk.gray(`  Completed in ${elapsed}s\n`));
 
-    const printResult = (r: { objectApiName: string; queried: number; inserted: number; updated: number; failed: number; skipped: number }): void => {
-      this.log(`  ${chalk.bold(r.objectApiName)}: queried=${r.queried} inserted=${r.inserted} updated=${r.updated} failed=${r.failed} skipped=${r.skipped}`);
+    const printResult = (r: ObjectSeedResult): void => {
+      const indent = '  '.repeat(r.depth ?? 0);
+      const matched = r.matched !== undefined ? ` matched=${r.matched}` : '';
+      this.log(`  ${indent}${chalk.bold(r.objectApiName)}: queried=${r.queried} inserted=${r.inserted} updated=${r.updated}${matched} failed=${r.failed} skipped=${r.skipped}`);
     };
 
     printResult(results.coreObject);
-    for (const child of results.children) printResult(child);
-    for (const gc of results.grandchildren) printResult(gc);
-    if (results.tasks) printResult(results.tasks);
-    if (results.events) printResult(results.events);
+    for (const r of results.related) printResult(r);
+    for (const activities of [results.tasks, results.events]) {
+      if (!activities) continue;
+      printResult(activities);
+      if (activities.relations) printResult(activities.relations);
+    }
 
     if (results.files) {
       const f = results.files;
-      this.log(`  ${chalk.bold('Files')}: found=${f.filesFound} uploaded=${f.filesUploaded} failed=${f.filesFailed} links=${f.linksCreated}`);
+      const versions = f.versionsUploaded !== undefined ? ` versions=${f.versionsUploaded}` : '';
+      this.log(`  ${chalk.bold('Files')}: found=${f.filesFound} uploaded=${f.filesUploaded}${versions} failed=${f.filesFailed} links=${f.linksCreated}`);
+    }
+
+    const printLegacy = (label: string, r: LegacyFileSeedResult): void => {
+      const converted = r.convertedTo ? ` (as ${r.convertedTo})` : '';
+      this.log(`  ${chalk.bold(label)}: found=${r.found} inserted=${r.inserted} failed=${r.failed}${converted}`);
+    };
+    if (results.attachments) printLegacy('Attachments', results.attachments);
+    if (results.notes) printLegacy('Notes', results.notes);
+    if (results.feed) {
+      printResult(results.feed.posts);
+      printResult(results.feed.comments);
     }
 
     if (results.errors.length > 0) {
@@ -256,6 +573,20 @@ export default class Seed extends SfCommand<SeedResults | void> {
       }
     }
 
+    if (results.unmatchedUsers && results.unmatchedUsers.length > 0) {
+      this.log(chalk.yellow(`\n  ${results.unmatchedUsers.length} source user(s) had no target match:`));
+      for (const u of results.unmatchedUsers) {
+        this.log(chalk.yellow(`    ${u.username} (${u.name}) — ${u.references} reference(s)`));
+      }
+    }
+
+    if (results.translatedPicklistValues && results.translatedPicklistValues.length > 0) {
+      this.log(chalk.yellow(`\n  ${results.translatedPicklistValues.length} picklist value(s) were translated:`));
+      for (const t of results.translatedPicklistValues) {
+        this.log(chalk.yellow(`    ${describePicklistTranslation(t)}`));
+      }
+    }
+
     this.log('');
   }
 }
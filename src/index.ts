@@ -1 +1,6 @@
 export { default as Seed } from './commands/seedbuddy/seed.js';
+export { default as Rollback } from './commands/seedbuddy/rollback.js';
+export { default as Retry } from './commands/seedbuddy/retry.js';
+export { default as Preflight } from './commands/seedbuddy/preflight.js';
+export { default as Export } from './commands/seedbuddy/export.js';
+export { default as Import } from './commands/seedbuddy/import.js';
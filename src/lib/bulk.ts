@@ -0,0 +1,224 @@
+import { Connection } from '@salesforce/core';
+import {
+  IdMap,
+  SeedError,
+  FailedRecord,
+  SeederLogger,
+  BatchOptions,
+  BULK_JOB_SIZE,
+  BULK_POLL_INTERVAL_MS,
+  BULK_POLL_TIMEOUT_MS,
+  DEFAULT_BULK_THRESHOLD,
+} from './types.js';
+
+// ---------------------------------------------------------------------------
+// Internal types
+// ---------------------------------------------------------------------------
+
+type BulkOperation = 'insert' | 'upsert';
+
+interface BulkRowResult {
+  success: boolean;
+  id?: string;
+  created?: boolean;
+  error?: string;
+}
+
+// Bulk API 2.0 CSV cell markers
+const BULK_NULL = '#N/A';
+const SIGNATURE_SEPARATOR = '\u0001';
+
+// ---------------------------------------------------------------------------
+// shouldUseBulk — forced, or automatic above the record threshold
+// ---------------------------------------------------------------------------
+
+export function shouldUseBulk(options: BatchOptions | undefined, recordCount: number): boolean {
+  if (!options || recordCount === 0) return false;
+  if (options.forceBulk) return true;
+  return recordCount >= (options.bulkThreshold ?? DEFAULT_BULK_THRESHOLD);
+}
+
+// ---------------------------------------------------------------------------
+// Row serialization — every row carries every column so the CSV header
+// (taken from the first row) covers all fields, and values are strings so
+// result rows echo back exactly what was uploaded
+// ---------------------------------------------------------------------------
+
+function toCell(value: unknown): string {
+  if (value === undefined) return '';
+  if (value === null) return BULK_NULL;
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  return String(value);
+}
+
+function toRows(records: Array<Record<string, unknown>>): { rows: Array<Record<string, string>>; columns: string[] } {
+  const columnSet = new Set<string>();
+  for (const rec of records) {
+    for (const key of Object.keys(rec)) columnSet.add(key);
+  }
+  const columns = [...columnSet];
+
+  const rows = records.map((rec) => {
+    const row: Record<string, string> = {};
+    for (const col of columns) row[col] = toCell(rec[col]);
+    return row;
+  });
+
+  return { rows, columns };
+}
+
+function signature(row: Record<string, unknown>, columns: string[]): string {
+  return columns
+    .map((col) => {
+      const v = row[col];
+      // Empty cells and explicit nulls are indistinguishable once parsed back
+      if (v === undefined || v === null || v === BULK_NULL) return '';
+      return String(v);
+    })
+    .join(SIGNATURE_SEPARATOR);
+}
+
+// ---------------------------------------------------------------------------
+// runIngestJob — one Bulk API 2.0 job per round, results re-aligned to input order
+// ---------------------------------------------------------------------------
+
+// Bulk API 2.0 does not return results in upload order, only the uploaded
+// column values, and accepts no columns beyond the object's own fields.
+// Rows are correlated back to their input position by a key — the upsert
+// field's value, or else every column value. Rows sharing a key belong to
+// different source records and cannot be told apart in one job's results, so
+// the k-th row with a key goes into the k-th job (round).
+function rowKey(row: Record<string, unknown>, columns: string[], externalIdField?: string): string {
+  const externalId = externalIdField ? row[externalIdField] : undefined;
+  if (externalId !== undefined && externalId !== null && externalId !== '' && externalId !== BULK_NULL) {
+    return `${externalIdField!}${SIGNATURE_SEPARATOR}${String(externalId)}`;
+  }
+  return signature(row, columns);
+}
+
+function splitRounds(keys: string[]): number[][] {
+  const rounds: number[][] = [];
+  const seen = new Map<string, number>();
+  keys.forEach((key, idx) => {
+    const round = seen.get(key) ?? 0;
+    seen.set(key, round + 1);
+    (rounds[round] ??= []).push(idx);
+  });
+  return rounds;
+}
+
+async function runIngestJob(
+  conn: Connection,
+  objectApiName: string,
+  operation: BulkOperation,
+  records: Array<Record<string, unknown>>,
+  logger: SeederLogger,
+  externalIdField?: string
+): Promise<BulkRowResult[]> {
+  const { rows, columns } = toRows(records);
+  const keys = rows.map((row) => rowKey(row, columns, externalIdField));
+  const rounds = splitRounds(keys);
+
+  if (rounds.length > 1) {
+    const repeated = rows.length - rounds[0].length;
+    logger.warn(
+      `${objectApiName}: ${repeated} row(s) share their ${externalIdField ? `${externalIdField} value` : 'values'} with another row — sent in ${rounds.length - 1} follow-up job(s) so each result maps to its own source record`
+    );
+  }
+
+  const aligned: BulkRowResult[] = rows.map(() => ({
+    success: false,
+    error: 'Record was not processed by the Bulk API job',
+  }));
+
+  for (const round of rounds) {
+    const jobResults = await conn.bulk2.loadAndWaitForResults({
+      object: objectApiName,
+      operation,
+      externalIdFieldName: externalIdField,
+      lineEnding: 'LF',
+      input: round.map((idx) => rows[idx]),
+      pollInterval: BULK_POLL_INTERVAL_MS,
+      pollTimeout: BULK_POLL_TIMEOUT_MS,
+    });
+
+    // Keys are unique within a round, so every result row has exactly one owner
+    const positions = new Map(round.map((idx): [string, number] => [keys[idx], idx]));
+    const positionOf = (row: Record<string, unknown>): number | undefined =>
+      positions.get(rowKey(row, columns, externalIdField));
+
+    for (const r of jobResults.successfulResults) {
+      const idx = positionOf(r);
+      if (idx === undefined) continue;
+      aligned[idx] = { success: true, id: r.sf__Id, created: r.sf__Created === 'true' };
+    }
+
+    for (const r of jobResults.failedResults) {
+      const idx = positionOf(r);
+      if (idx === undefined) continue;
+      aligned[idx] = { success: false, error: r.sf__Error };
+    }
+  }
+
+  return aligned;
+}
+
+// ---------------------------------------------------------------------------
+// bulkLoad — chunk into ingest jobs, map results into IdMap / SeedError list
+// ---------------------------------------------------------------------------
+
+export async function bulkLoad(
+  conn: Connection,
+  objectApiName: string,
+  operation: BulkOperation,
+  records: Array<Record<string, unknown>>,
+  sourceIds: string[],
+  idMap: IdMap,
+  errors: SeedError[],
+  logger: SeederLogger,
+  options?: BatchOptions,
+  externalIdField?: string
+): Promise<{ inserted: number; updated: number; failed: number }> {
+  let inserted = 0;
+  let updated = 0;
+  let failed = 0;
+
+  const totalJobs = Math.ceil(records.length / BULK_JOB_SIZE);
+
+  for (let i = 0; i < records.length; i += BULK_JOB_SIZE) {
+    const chunk = records.slice(i, i + BULK_JOB_SIZE);
+    const chunkSourceIds = sourceIds.slice(i, i + BULK_JOB_SIZE);
+
+    logger.updateSpinner(
+      `Bulk ${operation} ${objectApiName} job ${Math.floor(i / BULK_JOB_SIZE) + 1}/${totalJobs} (${chunk.length} records)`
+    );
+
+    const results = await runIngestJob(conn, objectApiName, operation, chunk, logger, externalIdField);
+    const matchedTargetIds: string[] = [];
+    const failures: FailedRecord[] = [];
+
+    for (let j = 0; j < results.length; j++) {
+      const r = results[j];
+      if (r.success && r.id) {
+        idMap.set(chunkSourceIds[j], r.id);
+        if (operation === 'upsert' && r.created === false) {
+          updated++;
+          matchedTargetIds.push(r.id);
+        } else {
+          inserted++;
+        }
+      } else {
+        failed++;
+        const error = r.error ?? 'Unknown error';
+        errors.push({ object: objectApiName, sourceId: chunkSourceIds[j], stage: operation, error });
+        failures.push({ objectApiName, sourceId: chunkSourceIds[j], operation, externalIdField, payload: chunk[j], error });
+      }
+    }
+
+    if (matchedTargetIds.length > 0) options?.onRecordsMatched?.(objectApiName, matchedTargetIds);
+    if (failures.length > 0) options?.onRecordsFailed?.(failures);
+    options?.onBatchCommitted?.(objectApiName, i + chunk.length, records.length);
+  }
+
+  return { inserted, updated, failed };
+}
@@ -0,0 +1,236 @@
+import { randomUUID } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import {
+  SeedConfig,
+  SeedResults,
+  SeedStep,
+  RunState,
+  FailedRecord,
+  SeedError,
+  IdMapCollection,
+  PersistedSeedConfig,
+  ExecutionOptions,
+  RUN_STATE_VERSION,
+  DEFAULT_RUN_DIR,
+} from './types.js';
+import { newMaskingSalt } from './masking.js';
+
+// ---------------------------------------------------------------------------
+// Run file paths
+// ---------------------------------------------------------------------------
+
+export function defaultRunFilePath(runId: string): string {
+  return join(DEFAULT_RUN_DIR, `${runId}.json`);
+}
+
+export function newRunId(): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return `${stamp}-${randomUUID().slice(0, 8)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Config (de)serialization — only the parts needed to replay a run
+// ---------------------------------------------------------------------------
+
+export function toPersistedConfig(config: SeedConfig): PersistedSeedConfig {
+  return {
+    coreObject: config.coreObject,
+    children: config.children,
+    includeTasks: config.includeTasks,
+    includeEvents: config.includeEvents,
+    includeFiles: config.includeFiles,
+    includeAttachments: config.includeAttachments,
+    includeNotes: config.includeNotes,
+    convertLegacyFiles: config.convertLegacyFiles,
+    includeFeed: config.includeFeed,
+    recordCount: config.recordCount,
+    whereClause: config.whereClause,
+    masking: config.masking,
+  };
+}
+
+export function toExecutionOptions(config: SeedConfig): ExecutionOptions {
+  return {
+    forceBulk: config.forceBulk,
+    bulkThreshold: config.bulkThreshold,
+    concurrency: config.concurrency,
+    preserveFileSharing: config.preserveFileSharing,
+    includeFileVersions: config.includeFileVersions,
+    fileStreamThreshold: config.fileStreamThreshold,
+    dependencyDepth: config.dependencyDepth,
+    pullPolymorphicDependencies: config.pullPolymorphicDependencies,
+    pullSelfReferences: config.pullSelfReferences,
+    recordTypeFallback: config.recordTypeFallback,
+    userMappingOptions: config.userMappingOptions,
+    picklistMappingOptions: config.picklistMappingOptions,
+  };
+}
+
+// A resumed run keeps the options it started with — `given` holds only the
+// flags passed again, and those override the saved values one by one
+export function resumeExecutionOptions(saved: ExecutionOptions | undefined, given: ExecutionOptions): ExecutionOptions {
+  const defined = <T extends object>(options: T | undefined): Partial<T> =>
+    Object.fromEntries(Object.entries(options ?? {}).filter(([, value]) => value !== undefined)) as Partial<T>;
+
+  const options: ExecutionOptions = { ...saved, ...defined(given) };
+  if (saved?.userMappingOptions || given.userMappingOptions) {
+    options.userMappingOptions = { ...saved?.userMappingOptions, ...defined(given.userMappingOptions) };
+  }
+  options.picklistMappingOptions = {
+    fallback: 'default',
+    ...saved?.picklistMappingOptions,
+    ...defined(given.picklistMappingOptions),
+  };
+  return options;
+}
+
+// ---------------------------------------------------------------------------
+// createRunState — fresh state for a new run
+// ---------------------------------------------------------------------------
+
+export function createRunState(config: SeedConfig, results: SeedResults, runId = newRunId()): RunState {
+  const now = new Date().toISOString();
+  return {
+    version: RUN_STATE_VERSION,
+    runId,
+    startedAt: now,
+    updatedAt: now,
+    sourceInstanceUrl: config.sourceConn.instanceUrl,
+    targetInstanceUrl: config.targetConn.instanceUrl,
+    config: toPersistedConfig(config),
+    options: toExecutionOptions(config),
+    coreSourceIds: null,
+    completedSteps: [],
+    completedObjects: [],
+    batchProgress: {},
+    idMaps: {},
+    matchedTargetIds: [],
+    maskingSalt: config.maskingSalt ?? newMaskingSalt(),
+    results,
+    failedRecords: [],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// loadRunState — read and validate a run file
+// ---------------------------------------------------------------------------
+
+export function loadRunState(filePath: string): RunState {
+  if (!existsSync(filePath)) {
+    throw new Error(`Run file not found: ${filePath}`);
+  }
+
+  let state: RunState;
+  try {
+    state = JSON.parse(readFileSync(filePath, 'utf8')) as RunState;
+  } catch (err) {
+    throw new Error(`Run file ${filePath} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  if (state.version !== RUN_STATE_VERSION) {
+    throw new Error(`Run file ${filePath} has unsupported version ${String(state.version)} (expected ${RUN_STATE_VERSION})`);
+  }
+  if (!state.config?.coreObject?.objectApiName || !state.idMaps || !state.results || !state.matchedTargetIds) {
+    throw new Error(`Run file ${filePath} is missing required sections`);
+  }
+
+  return state;
+}
+
+// ---------------------------------------------------------------------------
+// saveRunState — snapshot ID maps + results, write atomically
+// ---------------------------------------------------------------------------
+
+export function saveRunState(
+  filePath: string,
+  state: RunState,
+  idMaps: IdMapCollection,
+  results: SeedResults
+): void {
+  const serializedMaps: RunState['idMaps'] = {};
+  for (const objectName of Object.keys(idMaps)) {
+    serializedMaps[objectName] = Object.fromEntries(idMaps[objectName]);
+  }
+
+  state.idMaps = serializedMaps;
+  state.results = results;
+  state.updatedAt = new Date().toISOString();
+
+  mkdirSync(dirname(filePath), { recursive: true });
+  // Write to a temp file first so a crash mid-write never corrupts the checkpoint
+  const tmpPath = `${filePath}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(state, null, 2));
+  renameSync(tmpPath, filePath);
+}
+
+// ---------------------------------------------------------------------------
+// restoreIdMaps — rebuild the in-memory IdMapCollection from a run file
+// ---------------------------------------------------------------------------
+
+export function restoreIdMaps(state: RunState): IdMapCollection {
+  const idMaps: IdMapCollection = {};
+  for (const objectName of Object.keys(state.idMaps)) {
+    idMaps[objectName] = new Map(Object.entries(state.idMaps[objectName]));
+  }
+  return idMaps;
+}
+
+// ---------------------------------------------------------------------------
+// Step / object completion helpers
+// ---------------------------------------------------------------------------
+
+export function isStepComplete(state: RunState, step: SeedStep): boolean {
+  return state.completedSteps.includes(step);
+}
+
+export function markStepComplete(state: RunState, step: SeedStep): void {
+  if (!state.completedSteps.includes(step)) state.completedSteps.push(step);
+}
+
+export function objectKey(step: SeedStep, objectApiName: string): string {
+  return `${step}:${objectApiName}`;
+}
+
+export function isObjectComplete(state: RunState, step: SeedStep, objectApiName: string): boolean {
+  return state.completedObjects.includes(objectKey(step, objectApiName));
+}
+
+export function markObjectComplete(state: RunState, step: SeedStep, objectApiName: string): void {
+  const key = objectKey(step, objectApiName);
+  if (!state.completedObjects.includes(key)) state.completedObjects.push(key);
+}
+
+// ---------------------------------------------------------------------------
+// Failed record tracking — what `sf seedbuddy retry` sends again
+// ---------------------------------------------------------------------------
+
+// A record that fails again (resume or retry) replaces its earlier entry in place
+export function recordFailures(state: RunState, failed: FailedRecord[]): void {
+  const failedRecords = (state.failedRecords ??= []);
+  for (const record of failed) {
+    const index = failedRecords.findIndex(
+      (f) => f.objectApiName === record.objectApiName && f.sourceId === record.sourceId
+    );
+    if (index === -1) failedRecords.push(record);
+    else failedRecords[index] = record;
+  }
+}
+
+// A resumed run restores the earlier errors and re-reports records that fail
+// again — the latest error for an object, source ID and stage replaces the old one
+export function dedupeErrors(errors: SeedError[]): void {
+  const indexByKey = new Map<string, number>();
+  let kept = 0;
+  for (const error of errors) {
+    const key = `${error.object}:${error.sourceId ?? `?${error.error}`}:${error.stage}`;
+    const index = indexByKey.get(key);
+    if (index === undefined) {
+      indexByKey.set(key, kept);
+      errors[kept++] = error;
+    } else {
+      errors[index] = error;
+    }
+  }
+  errors.length = kept;
+}
@@ -0,0 +1,48 @@
+import { SeederLogger } from './types.js';
+
+// ---------------------------------------------------------------------------
+// runPool — run a worker over every item with at most `limit` in flight
+// ---------------------------------------------------------------------------
+
+// Items are started in order. After the first failure no new items are
+// started; the ones in flight finish before the error is rethrown, so nothing
+// is still writing to the target when the caller checkpoints.
+export async function runPool<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+
+  const lane = async (): Promise<void> => {
+    while (!failure && next < items.length) {
+      const index = next++;
+      try {
+        await worker(items[index], index);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  const lanes = Math.min(Math.max(limit, 1), items.length);
+  await Promise.all(Array.from({ length: lanes }, lane));
+  if (failure) throw failure.error;
+}
+
+// ---------------------------------------------------------------------------
+// concurrentLogger — spinner-free logger for objects seeded side by side
+// ---------------------------------------------------------------------------
+
+// There is one spinner line, so parallel objects report only their outcome
+export function concurrentLogger(logger: SeederLogger): SeederLogger {
+  return {
+    log: (msg) => logger.log(msg),
+    warn: (msg) => logger.warn(msg),
+    startSpinner: () => undefined,
+    updateSpinner: () => undefined,
+    stopSpinner: (msg) => logger.log(`  ${msg}`),
+    stopSpinnerFail: (msg) => logger.warn(msg),
+  };
+}
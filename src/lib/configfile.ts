@@ -0,0 +1,35 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+
+// ---------------------------------------------------------------------------
+// Shared loader for user-supplied files — plans, masking rules, user and
+// picklist mappings. Files ending in .json are JSON, anything else YAML.
+// ---------------------------------------------------------------------------
+
+export function isJsonFile(filePath: string): boolean {
+  return extname(filePath).toLowerCase() === '.json';
+}
+
+// `label` names the file in messages, e.g. "Plan file"
+export function loadConfigFile(label: string, filePath: string): unknown {
+  if (!existsSync(filePath)) {
+    throw new Error(`${label} not found: ${filePath}`);
+  }
+
+  const text = readFileSync(filePath, 'utf8');
+  const isJson = isJsonFile(filePath);
+  try {
+    return isJson ? JSON.parse(text) : parseYaml(text);
+  } catch (err) {
+    throw new Error(
+      `${label} ${filePath} is not valid ${isJson ? 'JSON' : 'YAML'}: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+}
+
+export function assertValidConfigFile(label: string, filePath: string, errors: string[]): void {
+  if (errors.length > 0) {
+    throw new Error(`${label} ${filePath} is invalid:\n${errors.map((e) => `  - ${e}`).join('\n')}`);
+  }
+}
@@ -0,0 +1,62 @@
+import { DependencyEdge, DependencyOrder } from './types.js';
+
+// ---------------------------------------------------------------------------
+// orderDependencies — topological sort, breaking cycles with deferred lookups
+// ---------------------------------------------------------------------------
+
+// Kahn's algorithm over the objects still to insert. When no object is free of
+// unresolved lookups the remaining graph contains a cycle; the object whose
+// blocking lookups are cheapest to defer (all nillable, then fewest) has those
+// edges broken so the sort can continue; objects blocked by a fixed edge are
+// never chosen. Input order breaks ties so the result is stable across runs.
+export function orderDependencies(objects: string[], edges: DependencyEdge[]): DependencyOrder {
+  const order: string[] = [];
+  const deferred: DependencyEdge[] = [];
+  const remaining = new Set(objects);
+  const broken = new Set<DependencyEdge>();
+
+  const blockers = (objectApiName: string): DependencyEdge[] =>
+    edges.filter(
+      (e) =>
+        e.fromObject === objectApiName &&
+        e.toObject !== objectApiName &&
+        remaining.has(e.toObject) &&
+        !broken.has(e)
+    );
+
+  while (remaining.size > 0) {
+    const ready = [...remaining].filter((obj) => blockers(obj).length === 0);
+
+    if (ready.length > 0) {
+      for (const obj of ready) {
+        order.push(obj);
+        remaining.delete(obj);
+      }
+      continue;
+    }
+
+    const candidates = [...remaining]
+      .map((obj) => ({ obj, blocking: blockers(obj) }))
+      .filter((c) => !c.blocking.some((e) => e.fixed));
+    candidates.sort((a, b) => {
+      const aRequired = a.blocking.some((e) => !e.nillable) ? 1 : 0;
+      const bRequired = b.blocking.some((e) => !e.nillable) ? 1 : 0;
+      return aRequired - bRequired || a.blocking.length - b.blocking.length;
+    });
+
+    for (const edge of candidates[0].blocking) {
+      broken.add(edge);
+      deferred.push(edge);
+    }
+  }
+
+  return { order, deferred };
+}
+
+// ---------------------------------------------------------------------------
+// describeDeferred — human-readable summary of a deferred edge
+// ---------------------------------------------------------------------------
+
+export function describeDeferred(edge: DependencyEdge): string {
+  return `${edge.fromObject}.${edge.field} → ${edge.toObject}`;
+}
@@ -0,0 +1,141 @@
+import { randomBytes } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { ReadableStream } from 'node:stream/web';
+import { Connection } from '@salesforce/core';
+import { SeedSource, SnapshotSource } from './types.js';
+import { InsertResult, SaveError } from './results.js';
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function isSnapshotSource(conn: SeedSource): conn is SnapshotSource {
+  return typeof (conn as Partial<SnapshotSource>).readVersionData === 'function';
+}
+
+async function fetchBlob(conn: Connection, objectApiName: string, recordId: string, field: string): Promise<Response> {
+  const apiVersion = conn.getApiVersion();
+  const downloadUrl = `${conn.instanceUrl}/services/data/v${apiVersion}/sobjects/${objectApiName}/${recordId}/${field}`;
+  const response = await fetch(downloadUrl, {
+    headers: { Authorization: `Bearer ${conn.accessToken!}` },
+    redirect: 'follow',
+  });
+
+  if (!response.ok) {
+    throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+  }
+  return response;
+}
+
+// ---------------------------------------------------------------------------
+// downloadVersionData — ContentVersion binary from an org or a snapshot
+// ---------------------------------------------------------------------------
+
+export async function downloadVersionData(conn: SeedSource, contentVersionId: string): Promise<Buffer> {
+  // Snapshot sources keep binaries on disk
+  if (isSnapshotSource(conn)) {
+    return conn.readVersionData(contentVersionId);
+  }
+
+  const response = await fetchBlob(conn, 'ContentVersion', contentVersionId, 'VersionData');
+  return Buffer.from(await response.arrayBuffer());
+}
+
+// ---------------------------------------------------------------------------
+// downloadAttachmentBody — classic Attachment binary
+// ---------------------------------------------------------------------------
+
+export async function downloadAttachmentBody(conn: SeedSource, attachmentId: string): Promise<Buffer> {
+  if (isSnapshotSource(conn)) {
+    throw new Error('Snapshots do not capture classic Attachments');
+  }
+  const response = await fetchBlob(conn, 'Attachment', attachmentId, 'Body');
+  return Buffer.from(await response.arrayBuffer());
+}
+
+// ---------------------------------------------------------------------------
+// openVersionData — the same binary as a stream, never held in memory whole
+// ---------------------------------------------------------------------------
+
+export async function openVersionData(conn: SeedSource, contentVersionId: string): Promise<Readable> {
+  if (isSnapshotSource(conn)) {
+    return conn.streamVersionData(contentVersionId);
+  }
+
+  const response = await fetchBlob(conn, 'ContentVersion', contentVersionId, 'VersionData');
+  if (!response.body) {
+    throw new Error('Download failed: empty response body');
+  }
+  return Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+}
+
+// ---------------------------------------------------------------------------
+// uploadVersionData — multipart ContentVersion insert streamed from `data`
+// ---------------------------------------------------------------------------
+
+// The JSON insert needs the whole file base64-encoded in the request body;
+// the multipart form sends the fields as JSON and the binary as-is, so the
+// download can be piped straight through. `size` must be the exact byte count.
+export async function uploadVersionData(
+  conn: Connection,
+  fields: Record<string, unknown>,
+  data: Readable,
+  size: number
+): Promise<InsertResult> {
+  const boundary = `seedbuddy${randomBytes(12).toString('hex')}`;
+  const fileName = String(fields['PathOnClient'] ?? 'file').replace(/"/g, '');
+  const head = Buffer.from(
+    `--${boundary}\r\n` +
+      'Content-Disposition: form-data; name="entity_content"\r\n' +
+      'Content-Type: application/json\r\n\r\n' +
+      `${JSON.stringify(fields)}\r\n` +
+      `--${boundary}\r\n` +
+      `Content-Disposition: form-data; name="VersionData"; filename="${fileName}"\r\n` +
+      'Content-Type: application/octet-stream\r\n\r\n'
+  );
+  const tail = Buffer.from(`\r\n--${boundary}--\r\n`);
+
+  async function* body(): AsyncGenerator<Uint8Array> {
+    yield head;
+    for await (const chunk of data) yield chunk as Uint8Array;
+    yield tail;
+  }
+
+  const apiVersion = conn.getApiVersion();
+  let response: Response;
+  let payload: unknown;
+  try {
+    response = await fetch(`${conn.instanceUrl}/services/data/v${apiVersion}/sobjects/ContentVersion`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${conn.accessToken!}`,
+        'Content-Type': `multipart/form-data; boundary=${boundary}`,
+        'Content-Length': String(head.length + size + tail.length),
+      },
+      body: Readable.from(body()),
+      duplex: 'half',
+    } as RequestInit);
+    payload = await response.json().catch(() => null);
+  } catch (err) {
+    // fetch reports stream and network failures as "fetch failed" with the reason in `cause`
+    const cause = err instanceof Error && err.cause instanceof Error ? err.cause : err;
+    throw new Error(`Upload failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+  } finally {
+    // A rejected upload must not leave the source download open
+    data.destroy();
+  }
+
+  if (response.ok) {
+    return payload as InsertResult;
+  }
+
+  // Failures come back as [{ errorCode, message, fields }]
+  const errors: SaveError[] = Array.isArray(payload)
+    ? (payload as Array<{ errorCode?: string; message?: string; fields?: string[] }>).map((e) => ({
+        statusCode: e.errorCode ?? String(response.status),
+        message: e.message ?? response.statusText,
+        fields: e.fields ?? [],
+      }))
+    : [{ statusCode: String(response.status), message: response.statusText, fields: [] }];
+  return { success: false, errors };
+}
@@ -0,0 +1,115 @@
+import { Connection } from '@salesforce/core';
+import { SeedConfig, SeederLogger, FieldInfo, GroupMapping, RecordSource } from './types.js';
+import { queryAll } from './query.js';
+
+// ---------------------------------------------------------------------------
+// Internal types
+// ---------------------------------------------------------------------------
+
+interface GroupRow {
+  Id: string;
+  DeveloperName: string;
+  Type: string;
+}
+
+interface QueueSobjectRow {
+  QueueId: string;
+  SobjectType: string;
+}
+
+export const GROUP_SOQL = "SELECT Id, DeveloperName, Type FROM Group WHERE Type IN ('Queue', 'Regular')";
+const QUEUE_SOBJECT_SOQL = 'SELECT QueueId, SobjectType FROM QueueSobject';
+const GROUP_KEY_PREFIX = '00G';
+
+function groupKey(row: GroupRow): string {
+  return `${row.Type}.${row.DeveloperName}`;
+}
+
+// ---------------------------------------------------------------------------
+// buildGroupMapping — query both orgs once and match by Type + DeveloperName
+// ---------------------------------------------------------------------------
+
+export async function buildGroupMapping(
+  sourceConn: RecordSource,
+  targetConn: Connection,
+  logger: SeederLogger
+): Promise<GroupMapping> {
+  const mapping: GroupMapping = { mapped: new Map(), missing: new Map(), queueObjects: new Map(), warned: new Set() };
+
+  const sourceRows = (await queryAll(sourceConn, GROUP_SOQL)) as unknown as GroupRow[];
+  const targetRows = (await queryAll(targetConn, GROUP_SOQL)) as unknown as GroupRow[];
+  const queueRows = (await queryAll(targetConn, QUEUE_SOBJECT_SOQL)) as unknown as QueueSobjectRow[];
+
+  for (const row of queueRows) {
+    if (!mapping.queueObjects.has(row.QueueId)) mapping.queueObjects.set(row.QueueId, new Set());
+    mapping.queueObjects.get(row.QueueId)!.add(row.SobjectType);
+  }
+
+  const targetByKey = new Map(targetRows.map((row) => [groupKey(row), row]));
+  for (const row of sourceRows) {
+    const target = targetByKey.get(groupKey(row));
+    if (target) {
+      mapping.mapped.set(row.Id, { targetId: target.Id, type: row.Type, developerName: row.DeveloperName });
+    } else {
+      mapping.missing.set(row.Id, `${row.Type === 'Queue' ? 'Queue' : 'Group'} ${row.DeveloperName} does not exist in the target org`);
+    }
+  }
+
+  logger.log(`  Queues/groups: ${mapping.mapped.size} matched, ${mapping.missing.size} without a target match`);
+  return mapping;
+}
+
+// ---------------------------------------------------------------------------
+// groupLookupFields / applyGroupLookups — translate queue and group references
+// ---------------------------------------------------------------------------
+
+export function groupLookupFields(fields: FieldInfo[], insertableFields: string[]): FieldInfo[] {
+  const insertable = new Set(insertableFields);
+  return fields.filter((f) => insertable.has(f.name) && f.type === 'reference' && f.referenceTo.includes('Group'));
+}
+
+// A queue can only own records of the objects listed in its QueueSobject
+// rows. Anything that cannot be translated falls back to the default owner
+// (--default-owner) when one is configured, otherwise the lookup is left off.
+export function applyGroupLookups(
+  config: SeedConfig,
+  objectApiName: string,
+  groupFields: FieldInfo[],
+  source: Record<string, unknown>,
+  prepared: Record<string, unknown>
+): void {
+  const mapping = config.groupMapping;
+  if (!mapping) return;
+
+  for (const field of groupFields) {
+    const sourceGroupId = source[field.name] as string | null | undefined;
+    if (!sourceGroupId?.startsWith(GROUP_KEY_PREFIX)) continue;
+
+    const target = mapping.mapped.get(sourceGroupId);
+    let reason = mapping.missing.get(sourceGroupId) ?? `Group ${sourceGroupId} is not visible in the source org`;
+
+    if (target) {
+      const supported = target.type !== 'Queue' || mapping.queueObjects.get(target.targetId)?.has(objectApiName);
+      if (supported) {
+        prepared[field.name] = target.targetId;
+        continue;
+      }
+      reason = `Queue ${target.developerName} does not support ${objectApiName} in the target org`;
+    }
+
+    const fallbackUserId = config.userMapping?.fallbackUserId;
+    if (fallbackUserId && field.referenceTo.includes('User')) {
+      prepared[field.name] = fallbackUserId;
+    } else if (field.nillable) {
+      prepared[field.name] = null;
+    } else {
+      delete prepared[field.name];
+    }
+
+    const warnKey = `${sourceGroupId}:${objectApiName}`;
+    if (!mapping.warned.has(warnKey)) {
+      mapping.warned.add(warnKey);
+      config.logger.warn(`${reason} — ${objectApiName}.${field.name} ${fallbackUserId ? 'uses the default owner' : 'is left blank'}`);
+    }
+  }
+}
@@ -7,17 +7,24 @@ import {
   SeedConfig,
   SeedResults,
   ObjectSeedResult,
-  ChildObjectConfig,
-  GrandchildObjectConfig,
+  RelatedObjectConfig,
+  ReportFormat,
+  MAX_RELATIONSHIP_DEPTH,
 } from './types.js';
 import {
   getAllObjects,
   getObjectFields,
   getChildRelationships,
-  getGrandchildRelationships,
+  getDescendantRelationships,
   getExternalIdFields,
 } from './schema.js';
 import { runSeeder } from './seeder.js';
+import { defaultRunFilePath, newRunId } from './checkpoint.js';
+import { flattenTree } from './tree.js';
+import { planFromConfig, savePlan } from './plan.js';
+import { buildRunReport, writeRunReport } from './report.js';
+import { logPreflightReport, runPreflight } from './preflight.js';
+import { describePicklistTranslation } from './picklists.js';
 
 inquirer.registerPrompt('autocomplete', autocompletePrompt);
 
@@ -29,6 +36,8 @@ let sourceConn: Connection | null = null;
 let targetConn: Connection | null = null;
 let sourceLabel: string | null = null;
 let targetLabel: string | null = null;
+let report: { filePath: string; format: ReportFormat } | null = null;
+let skipPreflight = false;
 
 // ---------------------------------------------------------------------------
 // Prefilled flags interface (for partial flag mode)
@@ -39,6 +48,8 @@ export interface InteractivePrefilledFlags {
   sourceLabel?: string;
   targetConn?: Connection;
   targetLabel?: string;
+  report?: { filePath: string; format: ReportFormat };
+  skipPreflight?: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -82,36 +93,47 @@ function displayResults(results: SeedResults, logger: SeederLogger): void {
   // Core object
   const core = results.coreObject;
   logger.log(chalk.bold(`  ${core.objectApiName}:`));
-  logger.log(`    Queried: ${core.queried} | Inserted: ${core.inserted} | Updated: ${core.updated} | Failed: ${core.failed} | Skipped: ${core.skipped}`);
-
-  // Children
-  for (const child of results.children) {
-    logger.log(chalk.bold(`  ${child.objectApiName}:`));
-    logger.log(`    Queried: ${child.queried} | Inserted: ${child.inserted} | Updated: ${child.updated} | Failed: ${child.failed} | Skipped: ${child.skipped}`);
+  const matched = (r: ObjectSeedResult): string => (r.matched !== undefined ? ` | Matched: ${r.matched}` : '');
+  logger.log(`    Queried: ${core.queried} | Inserted: ${core.inserted} | Updated: ${core.updated}${matched(core)} | Failed: ${core.failed} | Skipped: ${core.skipped}`);
+
+  // Related objects (any depth)
+  for (const rel of results.related) {
+    const indent = '  '.repeat(rel.depth ?? 1);
+    logger.log(chalk.bold(`${indent}${rel.objectApiName}:`) + chalk.gray(rel.parentObject ? ` (child of ${rel.parentObject})` : ''));
+    logger.log(`${indent}  Queried: ${rel.queried} | Inserted: ${rel.inserted} | Updated: ${rel.updated}${matched(rel)} | Failed: ${rel.failed} | Skipped: ${rel.skipped}`);
   }
 
-  // Grandchildren
-  for (const gc of results.grandchildren) {
-    logger.log(chalk.bold(`  ${gc.objectApiName}:`));
-    logger.log(`    Queried: ${gc.queried} | Inserted: ${gc.inserted} | Updated: ${gc.updated} | Failed: ${gc.failed} | Skipped: ${gc.skipped}`);
+  // Tasks / Events, with their shared contacts and invitees
+  for (const activities of [results.tasks, results.events]) {
+    if (!activities) continue;
+    logger.log(chalk.bold(`  ${activities.objectApiName}:`));
+    logger.log(`    Queried: ${activities.queried} | Inserted: ${activities.inserted} | Failed: ${activities.failed}`);
+    const rel = activities.relations;
+    if (rel) {
+      logger.log(`    ${rel.objectApiName} — Queried: ${rel.queried} | Inserted: ${rel.inserted} | Failed: ${rel.failed} | Skipped: ${rel.skipped}`);
+    }
   }
 
-  // Tasks
-  if (results.tasks) {
-    logger.log(chalk.bold('  Task:'));
-    logger.log(`    Queried: ${results.tasks.queried} | Inserted: ${results.tasks.inserted} | Failed: ${results.tasks.failed}`);
+  // Files
+  if (results.files) {
+    logger.log(chalk.bold('  Files:'));
+    const versions = results.files.versionsUploaded !== undefined ? ` | Versions: ${results.files.versionsUploaded}` : '';
+    logger.log(`    Found: ${results.files.filesFound} | Uploaded: ${results.files.filesUploaded}${versions} | Failed: ${results.files.filesFailed} | Links: ${results.files.linksCreated}`);
   }
 
-  // Events
-  if (results.events) {
-    logger.log(chalk.bold('  Event:'));
-    logger.log(`    Queried: ${results.events.queried} | Inserted: ${results.events.inserted} | Failed: ${results.events.failed}`);
+  // Attachments / Notes
+  for (const [label, r] of [['Attachments', results.attachments], ['Notes', results.notes]] as const) {
+    if (!r) continue;
+    logger.log(chalk.bold(`  ${label}:`));
+    logger.log(`    Found: ${r.found} | Inserted: ${r.inserted} | Failed: ${r.failed}${r.convertedTo ? ` | Converted to: ${r.convertedTo}` : ''}`);
   }
 
-  // Files
-  if (results.files) {
-    logger.log(chalk.bold('  Files:'));
-    logger.log(`    Found: ${results.files.filesFound} | Uploaded: ${results.files.filesUploaded} | Failed: ${results.files.filesFailed} | Links: ${results.files.linksCreated}`);
+  // Chatter feed
+  if (results.feed) {
+    for (const r of [results.feed.posts, results.feed.comments]) {
+      logger.log(chalk.bold(`  ${r.objectApiName}:`));
+      logger.log(`    Queried: ${r.queried} | Inserted: ${r.inserted} | Failed: ${r.failed} | Skipped: ${r.skipped}`);
+    }
   }
 
   // Errors
@@ -127,6 +149,22 @@ function displayResults(results: SeedResults, logger: SeederLogger): void {
     }
   }
 
+  // Users referenced by seeded records that have no counterpart in the target
+  if (results.unmatchedUsers && results.unmatchedUsers.length > 0) {
+    logger.log(chalk.yellow.bold(`\n  Unmatched users (${results.unmatchedUsers.length}):`));
+    for (const u of results.unmatchedUsers) {
+      logger.log(chalk.yellow(`    ${u.username} (${u.name}) — ${u.references} reference(s)`));
+    }
+  }
+
+  // Picklist values the target org does not accept, and what they became
+  if (results.translatedPicklistValues && results.translatedPicklistValues.length > 0) {
+    logger.log(chalk.yellow.bold(`\n  Translated picklist values (${results.translatedPicklistValues.length}):`));
+    for (const t of results.translatedPicklistValues) {
+      logger.log(chalk.yellow(`    ${describePicklistTranslation(t)}`));
+    }
+  }
+
   logger.log('');
 }
 
@@ -234,7 +272,7 @@ async function startSeeding(logger: SeederLogger): Promise<void> {
   const childRels = await getChildRelationships(sourceConn, objectApiName);
   logger.stopSpinner(`Found ${childRels.length} child relationship(s)`);
 
-  let selectedChildren: ChildObjectConfig[] = [];
+  const selectedChildren: RelatedObjectConfig[] = [];
 
   if (childRels.length > 0) {
     const childChoices = childRels.map((r) => ({
@@ -253,48 +291,60 @@ async function startSeeding(logger: SeederLogger): Promise<void> {
       },
     ]);
 
-    selectedChildren = (children as typeof childRels).map((r) => ({
-      objectApiName: r.childSObject,
-      lookupField: r.field,
-      grandchildren: [],
-    }));
+    for (const r of children as typeof childRels) {
+      selectedChildren.push({
+        objectApiName: r.childSObject,
+        lookupField: r.field,
+        children: [],
+      });
+    }
   }
 
-  // Step 3: Select grandchild objects
-  if (selectedChildren.length > 0) {
-    const childNames = selectedChildren.map((c) => c.objectApiName);
-    logger.startSpinner('Discovering grandchild relationships...');
-    const grandchildRels = await getGrandchildRelationships(sourceConn, childNames, objectApiName);
-    logger.stopSpinner(`Found ${grandchildRels.length} grandchild relationship(s)`);
-
-    if (grandchildRels.length > 0) {
-      const gcChoices = grandchildRels.map((r) => ({
-        name: `${r.childSObject} (child of ${r.parentChildObject} via ${r.field})`,
-        value: r,
-        checked: false,
-      }));
+  // Step 3: Select descendants, one level at a time, until nothing more is picked
+  const objectsInScope = new Set([objectApiName, ...selectedChildren.map((c) => c.objectApiName)]);
+  let frontier = selectedChildren;
 
-      const { grandchildren } = await inquirer.prompt([
-        {
-          type: 'checkbox',
-          name: 'grandchildren',
-          message: 'Select grandchild objects to include:',
-          choices: gcChoices,
-          pageSize: 15,
-        },
-      ]);
+  for (let depth = 2; frontier.length > 0 && depth <= MAX_RELATIONSHIP_DEPTH; depth++) {
+    logger.startSpinner(`Discovering level ${depth} relationships...`);
+    const descendantRels = await getDescendantRelationships(
+      sourceConn,
+      frontier.map((c) => c.objectApiName),
+      objectsInScope
+    );
+    logger.stopSpinner(`Found ${descendantRels.length} level ${depth} relationship(s)`);
 
-      for (const gc of grandchildren as Array<typeof grandchildRels[number]>) {
-        const parentChild = selectedChildren.find((c) => c.objectApiName === gc.parentChildObject);
-        if (parentChild) {
-          parentChild.grandchildren.push({
-            objectApiName: gc.childSObject,
-            lookupField: gc.field,
-            parentChildObject: gc.parentChildObject,
-          });
-        }
-      }
+    if (descendantRels.length === 0) break;
+
+    const descendantChoices = descendantRels.map((r) => ({
+      name: `${r.childSObject} (child of ${r.parentObject} via ${r.field})`,
+      value: r,
+      checked: false,
+    }));
+
+    const { descendants } = await inquirer.prompt([
+      {
+        type: 'checkbox',
+        name: 'descendants',
+        message: `Select level ${depth} objects to include (none to stop):`,
+        choices: descendantChoices,
+        pageSize: 15,
+      },
+    ]);
+
+    const nextFrontier: RelatedObjectConfig[] = [];
+    for (const r of descendants as typeof descendantRels) {
+      // The same object can be offered under several parents — take the first pick only
+      if (objectsInScope.has(r.childSObject)) continue;
+
+      const parent = frontier.find((c) => c.objectApiName === r.parentObject);
+      if (!parent) continue;
+
+      const node: RelatedObjectConfig = { objectApiName: r.childSObject, lookupField: r.field, children: [] };
+      parent.children.push(node);
+      nextFrontier.push(node);
+      objectsInScope.add(r.childSObject);
     }
+    frontier = nextFrontier;
   }
 
   // Step 4: Toggle Tasks
@@ -327,7 +377,41 @@ async function startSeeding(logger: SeederLogger): Promise<void> {
     },
   ]);
 
-  // Step 7: Record count
+  // Step 7: Toggle classic Attachments / Notes (and whether to convert them to Files) and the Chatter feed
+  const { includeAttachments, includeNotes, includeFeed } = await inquirer.prompt([
+    {
+      type: 'confirm',
+      name: 'includeAttachments',
+      message: 'Include classic Attachments?',
+      default: false,
+    },
+    {
+      type: 'confirm',
+      name: 'includeNotes',
+      message: 'Include classic Notes?',
+      default: false,
+    },
+    {
+      type: 'confirm',
+      name: 'includeFeed',
+      message: 'Include Chatter posts and comments?',
+      default: false,
+    },
+  ]);
+
+  let convertLegacyFiles = false;
+  if (includeAttachments || includeNotes) {
+    ({ convertLegacyFiles } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'convertLegacyFiles',
+        message: 'Convert them to Files / ContentNotes in the target?',
+        default: false,
+      },
+    ]));
+  }
+
+  // Step 8: Record count
   const { recordCountInput } = await inquirer.prompt([
     {
       type: 'input',
@@ -345,7 +429,7 @@ async function startSeeding(logger: SeederLogger): Promise<void> {
   const recordCount: number | 'All' =
     recordCountInput.toLowerCase() === 'all' ? 'All' : parseInt(recordCountInput, 10);
 
-  // Step 8: WHERE clause
+  // Step 9: WHERE clause
   const { whereClause } = await inquirer.prompt([
     {
       type: 'input',
@@ -355,9 +439,10 @@ async function startSeeding(logger: SeederLogger): Promise<void> {
     },
   ]);
 
-  // Step 9: Upsert config (optional external ID fields)
+  // Step 10: Upsert config (optional external ID fields)
   let coreExternalIdField: string | undefined;
   const childExternalIds: Map<string, string> = new Map();
+  const relatedNodes = flattenTree(objectApiName, selectedChildren);
 
   const { useUpsert } = await inquirer.prompt([
     {
@@ -388,8 +473,8 @@ async function startSeeding(logger: SeederLogger): Promise<void> {
       if (coreExtId) coreExternalIdField = coreExtId;
     }
 
-    // Child object external IDs
-    for (const child of selectedChildren) {
+    // Related object external IDs
+    for (const { config: child } of relatedNodes) {
       const childFields = await getObjectFields(sourceConn, child.objectApiName);
       const childExtIds = getExternalIdFields(childFields);
 
@@ -410,7 +495,7 @@ async function startSeeding(logger: SeederLogger): Promise<void> {
     }
   }
 
-  // Step 10: Review & confirm
+  // Step 11: Review & confirm
   console.log('\n' + chalk.bold.cyan('═══ SEED CONFIGURATION ═══'));
   console.log(`  ${chalk.bold('Source:')} ${sourceLabel}`);
   console.log(`  ${chalk.bold('Target:')} ${targetLabel}`);
@@ -419,27 +504,54 @@ async function startSeeding(logger: SeederLogger): Promise<void> {
   if (whereClause) console.log(`  ${chalk.bold('WHERE:')} ${whereClause}`);
 
   if (selectedChildren.length > 0) {
-    console.log(`  ${chalk.bold('Children:')}`);
-    for (const child of selectedChildren) {
-      const extId = childExternalIds.get(child.objectApiName);
-      console.log(`    - ${child.objectApiName} (via ${child.lookupField})${extId ? ` [upsert: ${extId}]` : ''}`);
-      for (const gc of child.grandchildren) {
-        console.log(`      - ${gc.objectApiName} (via ${gc.lookupField})`);
+    console.log(`  ${chalk.bold('Related objects:')}`);
+    const printTree = (nodes: RelatedObjectConfig[], indent: string): void => {
+      for (const node of nodes) {
+        const extId = childExternalIds.get(node.objectApiName);
+        console.log(`${indent}- ${node.objectApiName} (via ${node.lookupField})${extId ? ` [upsert: ${extId}]` : ''}`);
+        printTree(node.children, `${indent}  `);
       }
-    }
+    };
+    printTree(selectedChildren, '    ');
   }
 
   console.log(`  ${chalk.bold('Tasks:')} ${includeTasks ? 'Yes' : 'No'}`);
   console.log(`  ${chalk.bold('Events:')} ${includeEvents ? 'Yes' : 'No'}`);
   console.log(`  ${chalk.bold('Files:')} ${includeFiles ? 'Yes' : 'No'}`);
+  console.log(`  ${chalk.bold('Attachments:')} ${includeAttachments ? 'Yes' : 'No'}`);
+  console.log(`  ${chalk.bold('Notes:')} ${includeNotes ? 'Yes' : 'No'}`);
+  if (convertLegacyFiles) console.log(`  ${chalk.bold('Convert to Files:')} Yes`);
+  console.log(`  ${chalk.bold('Chatter feed:')} ${includeFeed ? 'Yes' : 'No'}`);
   console.log('');
 
+  // Schema compatibility check — blocking issues flip the default answer to "no"
+  let blocking = 0;
+  if (!skipPreflight) {
+    try {
+      const preflight = await runPreflight(sourceConn, targetConn, {
+        coreObject: { objectApiName },
+        children: selectedChildren,
+        includeTasks,
+        includeEvents,
+        includeFiles,
+        recordCount,
+        whereClause: whereClause || undefined,
+      }, logger);
+      logPreflightReport(preflight, logger);
+      blocking = preflight.blocking;
+    } catch (err) {
+      logger.stopSpinnerFail('Preflight failed');
+      console.log(chalk.yellow(`  Preflight could not run: ${err instanceof Error ? err.message : String(err)}`));
+    }
+    console.log('');
+  }
+
   const { confirmed } = await inquirer.prompt([
     {
       type: 'confirm',
       name: 'confirmed',
-      message: 'Proceed with seeding?',
-      default: true,
+      message: blocking > 0 ? `Proceed with seeding despite ${blocking} blocking issue(s)?` : 'Proceed with seeding?',
+      default: blocking === 0,
     },
   ]);
 
@@ -452,11 +564,51 @@ async function startSeeding(logger: SeederLogger): Promise<void> {
   if (coreExternalIdField) {
     // Already set above
   }
-  for (const child of selectedChildren) {
+  for (const { config: child } of relatedNodes) {
     const extId = childExternalIds.get(child.objectApiName);
     if (extId) child.externalIdField = extId;
   }
 
+  // Optionally capture this configuration as a plan file for repeatable runs
+  const { savePlanFile } = await inquirer.prompt([
+    {
+      type: 'confirm',
+      name: 'savePlanFile',
+      message: 'Save this configuration as a plan file?',
+      default: false,
+    },
+  ]);
+
+  if (savePlanFile) {
+    const { planPath } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'planPath',
+        message: 'Plan file path (.yaml or .json):',
+        default: 'seed-plan.yaml',
+      },
+    ]);
+
+    try {
+      savePlan(planPath, planFromConfig({
+        coreObject: { objectApiName, externalIdField: coreExternalIdField },
+        children: selectedChildren,
+        includeTasks,
+        includeEvents,
+        includeFiles,
+        includeAttachments,
+        includeNotes,
+        convertLegacyFiles,
+        includeFeed,
+        recordCount,
+        whereClause: whereClause || undefined,
+      }));
+      console.log(chalk.green(`  Plan saved to ${planPath}`));
+    } catch (err) {
+      console.log(chalk.red(`  Failed to save plan: ${err instanceof Error ? err.message : String(err)}`));
+    }
+  }
+
   // Build config & run
   let aborted = false;
   const existingSigintListeners = process.listeners('SIGINT');
@@ -485,17 +637,33 @@ async function startSeeding(logger: SeederLogger): Promise<void> {
       includeTasks,
       includeEvents,
       includeFiles,
+      includeAttachments,
+      includeNotes,
+      convertLegacyFiles,
+      includeFeed,
       recordCount,
       whereClause: whereClause || undefined,
       dryRun: false,
       logger,
       shouldAbort: () => aborted,
+      runFile: defaultRunFilePath(newRunId()),
+      // A run that breaks partway still gets a report of what it did
+      onRunFailed: (partial, err) => {
+        if (!report) return;
+        writeRunReport(report.filePath, report.format, buildRunReport('seed', seedConfig, partial, startTime, err));
+        logger.log(chalk.gray(`  Report (${report.format}) of the partial run written to ${report.filePath}`));
+      },
     };
 
     const results = await runSeeder(seedConfig);
     const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
     logger.log(chalk.gray(`\n  Completed in ${elapsed}s`));
     displayResults(results, logger);
+
+    if (report) {
+      writeRunReport(report.filePath, report.format, buildRunReport('seed', seedConfig, results, startTime));
+      logger.log(chalk.gray(`  Report (${report.format}) written to ${report.filePath}`));
+    }
   } catch (err) {
     logger.stopSpinnerFail('Seeding failed');
     logger.log(chalk.red(`  Error: ${err instanceof Error ? err.message : String(err)}`));
@@ -611,6 +779,8 @@ export async function runInteractive(
     targetConn = prefilledFlags.targetConn;
     targetLabel = prefilledFlags.targetLabel ?? targetConn.instanceUrl;
   }
+  report = prefilledFlags.report ?? null;
+  skipPreflight = prefilledFlags.skipPreflight ?? false;
 
   await mainMenu(logger);
 
@@ -619,4 +789,6 @@ export async function runInteractive(
   targetConn = null;
   sourceLabel = null;
   targetLabel = null;
+  report = null;
+  skipPreflight = false;
 }
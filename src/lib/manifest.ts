@@ -0,0 +1,112 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import {
+  RunState,
+  RunManifest,
+  ManifestEntry,
+  ManifestTier,
+  IdMapCollection,
+  MANIFEST_VERSION,
+  ROLLBACK_TIER_ORDER,
+  CONTENT_DOCUMENT_MAP_KEY,
+} from './types.js';
+import { flattenTree } from './tree.js';
+
+// ---------------------------------------------------------------------------
+// Manifest file path — sits next to the run file
+// ---------------------------------------------------------------------------
+
+export function manifestPathFor(runFile: string): string {
+  return `${runFile.replace(/\.json$/i, '')}.manifest.json`;
+}
+
+// ---------------------------------------------------------------------------
+// buildManifest — classify every IdMap into a rollback tier
+// ---------------------------------------------------------------------------
+
+const ACTIVITY_TIER_OBJECTS = new Set(['Task', 'Event', 'TaskRelation', 'EventRelation', 'FeedItem', 'FeedComment']);
+
+function tierFor(objectApiName: string, state: RunState): { tier: ManifestTier; depth?: number } {
+  const { config } = state;
+  if (objectApiName === CONTENT_DOCUMENT_MAP_KEY || objectApiName === 'Attachment' || objectApiName === 'Note') {
+    return { tier: 'file' };
+  }
+  if (ACTIVITY_TIER_OBJECTS.has(objectApiName)) return { tier: 'activity' };
+  if (objectApiName === config.coreObject.objectApiName) return { tier: 'core' };
+
+  // Related objects are deleted deepest level first
+  const depths = flattenTree(config.coreObject.objectApiName, config.children)
+    .filter((n) => n.config.objectApiName === objectApiName)
+    .map((n) => n.depth);
+  if (depths.length > 0) return { tier: 'related', depth: Math.max(...depths) };
+
+  // Anything else was pulled in to satisfy a lookup
+  return { tier: 'dependency' };
+}
+
+export function buildManifest(state: RunState, idMaps: IdMapCollection): RunManifest {
+  const matched = new Set(state.matchedTargetIds);
+  const objects: ManifestEntry[] = [];
+
+  for (const objectApiName of Object.keys(idMaps)) {
+    // Upsert matches existed before the run — only records we created are listed
+    const targetIds = [...new Set(idMaps[objectApiName].values())].filter((id) => !matched.has(id));
+    if (targetIds.length === 0) continue;
+
+    objects.push({ objectApiName, ...tierFor(objectApiName, state), targetIds });
+  }
+
+  return {
+    version: MANIFEST_VERSION,
+    runId: state.runId,
+    createdAt: new Date().toISOString(),
+    targetInstanceUrl: state.targetInstanceUrl,
+    objects,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// writeManifest / loadManifest
+// ---------------------------------------------------------------------------
+
+export function writeManifest(filePath: string, manifest: RunManifest): void {
+  mkdirSync(dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(manifest, null, 2));
+  renameSync(tmpPath, filePath);
+}
+
+export function loadManifest(filePath: string): RunManifest {
+  if (!existsSync(filePath)) {
+    throw new Error(`Manifest not found: ${filePath}`);
+  }
+
+  let manifest: RunManifest;
+  try {
+    manifest = JSON.parse(readFileSync(filePath, 'utf8')) as RunManifest;
+  } catch (err) {
+    throw new Error(`Manifest ${filePath} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new Error(`Manifest ${filePath} has unsupported version ${String(manifest.version)} (expected ${MANIFEST_VERSION})`);
+  }
+  if (!Array.isArray(manifest.objects)) {
+    throw new Error(`Manifest ${filePath} is missing the objects list`);
+  }
+
+  return manifest;
+}
+
+// ---------------------------------------------------------------------------
+// orderForRollback — reverse dependency order, reverse insertion within a tier
+// ---------------------------------------------------------------------------
+
+export function orderForRollback(manifest: RunManifest): ManifestEntry[] {
+  const ordered: ManifestEntry[] = [];
+  for (const tier of ROLLBACK_TIER_ORDER) {
+    const entries = manifest.objects.filter((e) => e.tier === tier).reverse();
+    ordered.push(...entries.sort((a, b) => (b.depth ?? 0) - (a.depth ?? 0)));
+  }
+  return ordered;
+}
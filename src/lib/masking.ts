@@ -0,0 +1,157 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import { MaskRule, MaskStrategy, MaskingRules, MASK_STRATEGIES } from './types.js';
+import { assertValidConfigFile, loadConfigFile } from './configfile.js';
+
+// ---------------------------------------------------------------------------
+// Fake value pools — picked deterministically by hash
+// ---------------------------------------------------------------------------
+
+const FIRST_NAMES = [
+  'Alex', 'Bailey', 'Casey', 'Dana', 'Eden', 'Finley', 'Gray', 'Harper', 'Indigo', 'Jordan',
+  'Kai', 'Logan', 'Morgan', 'Noel', 'Oakley', 'Parker', 'Quinn', 'Reese', 'Sage', 'Taylor',
+  'Umber', 'Vale', 'Wren', 'Xen', 'Yael', 'Zion',
+];
+
+const LAST_NAMES = [
+  'Abbott', 'Barlow', 'Carver', 'Dalton', 'Ellison', 'Fletcher', 'Garner', 'Hollis', 'Irving', 'Jarvis',
+  'Keller', 'Lowell', 'Mercer', 'Nolan', 'Orton', 'Prescott', 'Quimby', 'Radcliffe', 'Sutton', 'Thorne',
+  'Underwood', 'Vance', 'Whitley', 'Yardley', 'Zeller',
+];
+
+const COMPANY_WORDS = [
+  'Acme', 'Apex', 'Beacon', 'Cobalt', 'Summit', 'Harbor', 'Keystone', 'Meridian', 'Northwind', 'Pinnacle',
+  'Quartz', 'Redwood', 'Sterling', 'Trident', 'Vertex', 'Willow',
+];
+
+const COMPANY_SUFFIXES = ['Inc', 'LLC', 'Group', 'Partners', 'Holdings', 'Labs'];
+
+const REDACTED = '[REDACTED]';
+
+// ---------------------------------------------------------------------------
+// Deterministic hashing — same value + strategy → same output within a run
+// ---------------------------------------------------------------------------
+
+export function newMaskingSalt(): string {
+  return randomBytes(16).toString('hex');
+}
+
+function digest(salt: string, strategy: string, value: string): Buffer {
+  return createHmac('sha256', salt).update(`${strategy}\u0000${value}`).digest();
+}
+
+function pick<T>(pool: T[], hash: Buffer, offset: number): T {
+  return pool[hash.readUInt16BE(offset) % pool.length];
+}
+
+// ---------------------------------------------------------------------------
+// maskValue — apply one rule to one value
+// ---------------------------------------------------------------------------
+
+export function maskValue(value: unknown, rule: MaskRule, salt: string): unknown {
+  if (value === null || value === undefined) return value;
+  const str = String(value);
+
+  switch (rule.strategy) {
+    case 'fakeFirstName':
+      return pick(FIRST_NAMES, digest(salt, 'name', str), 0);
+    case 'fakeLastName':
+      return pick(LAST_NAMES, digest(salt, 'name', str), 2);
+    case 'fakeName': {
+      const hash = digest(salt, 'name', str);
+      return `${pick(FIRST_NAMES, hash, 0)} ${pick(LAST_NAMES, hash, 2)}`;
+    }
+    case 'fakeCompany': {
+      const hash = digest(salt, 'company', str);
+      return `${pick(COMPANY_WORDS, hash, 0)} ${pick(COMPANY_WORDS, hash, 2)} ${pick(COMPANY_SUFFIXES, hash, 4)}`;
+    }
+    case 'hashEmail': {
+      // Keep the domain so routing/validation rules keyed on it still behave
+      const at = str.lastIndexOf('@');
+      const domain = at >= 0 ? str.slice(at + 1) : 'example.invalid';
+      const local = digest(salt, 'email', str.toLowerCase()).toString('hex').slice(0, 12);
+      return `user.${local}@${domain}`;
+    }
+    case 'randomPhone': {
+      // Replace every digit, keep punctuation and length so formats stay valid
+      const hash = digest(salt, 'phone', str.replace(/\D/g, ''));
+      let i = 0;
+      return str.replace(/\d/g, () => String(hash[i++ % hash.length] % 10));
+    }
+    case 'redact':
+      return REDACTED;
+    case 'constant':
+      return rule.value ?? '';
+    case 'null':
+      return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// maskRecord — apply every rule for an object (and '*') to a prepared record
+// ---------------------------------------------------------------------------
+
+export function maskRecord(
+  record: Record<string, unknown>,
+  objectApiName: string,
+  rules: MaskingRules,
+  salt: string
+): number {
+  let masked = 0;
+  const applicable = { ...rules['*'], ...rules[objectApiName] };
+
+  for (const [fieldName, rule] of Object.entries(applicable)) {
+    const value = record[fieldName];
+    if (value === undefined || value === null) continue;
+    record[fieldName] = maskValue(value, normalizeRule(rule), salt);
+    masked++;
+  }
+
+  return masked;
+}
+
+// ---------------------------------------------------------------------------
+// Rule parsing — "hashEmail" shorthand or { strategy, value }
+// ---------------------------------------------------------------------------
+
+export function normalizeRule(rule: MaskRule | MaskStrategy): MaskRule {
+  return typeof rule === 'string' ? { strategy: rule } : rule;
+}
+
+export function validateMaskingRules(raw: unknown, path: string): string[] {
+  const errors: string[] = [];
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return [`${path}: must be a mapping of object → field → strategy`];
+  }
+
+  for (const [objectName, fields] of Object.entries(raw as Record<string, unknown>)) {
+    if (typeof fields !== 'object' || fields === null || Array.isArray(fields)) {
+      errors.push(`${path}.${objectName}: must be a mapping of field → strategy`);
+      continue;
+    }
+
+    for (const [fieldName, rule] of Object.entries(fields as Record<string, unknown>)) {
+      const rulePath = `${path}.${objectName}.${fieldName}`;
+      const strategy = typeof rule === 'string' ? rule : (rule as Record<string, unknown> | null)?.['strategy'];
+
+      if (typeof strategy !== 'string' || !MASK_STRATEGIES.includes(strategy as MaskStrategy)) {
+        errors.push(`${rulePath}: strategy must be one of ${MASK_STRATEGIES.join(', ')}, got ${JSON.stringify(strategy)}`);
+        continue;
+      }
+      if (strategy === 'constant' && typeof (rule as Record<string, unknown>)?.['value'] !== 'string') {
+        errors.push(`${rulePath}: constant strategy needs a string "value"`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+export function loadMaskingRules(filePath: string): MaskingRules {
+  const raw = loadConfigFile('Masking file', filePath);
+
+  const errors = validateMaskingRules(raw, 'masking');
+  assertValidConfigFile('Masking file', filePath, errors);
+
+  return raw as MaskingRules;
+}
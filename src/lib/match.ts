@@ -0,0 +1,119 @@
+import { Connection } from '@salesforce/core';
+import { FieldInfo, MatchKeyConfig } from './types.js';
+import { queryAllChunked, escSoql } from './query.js';
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+// Field types whose SOQL literals are written without quotes
+const UNQUOTED_TYPES = new Set(['int', 'long', 'double', 'currency', 'percent', 'boolean', 'date', 'datetime', 'time']);
+
+const KEY_SEPARATOR = '\u0001';
+
+function soqlLiteral(value: unknown, field: FieldInfo): string {
+  return UNQUOTED_TYPES.has(field.type) ? String(value) : `'${escSoql(String(value))}'`;
+}
+
+// Text comparisons in SOQL are case-insensitive, so keys are too
+function normalize(value: unknown): string {
+  return String(value).trim().toLowerCase();
+}
+
+// ---------------------------------------------------------------------------
+// resolveMatchFields — validate a match key against the object's fields
+// ---------------------------------------------------------------------------
+
+export function resolveMatchFields(
+  objectApiName: string,
+  matchKey: MatchKeyConfig,
+  fields: FieldInfo[],
+  insertableFields: string[]
+): FieldInfo[] {
+  const insertable = new Set(insertableFields);
+  return matchKey.fields.map((name) => {
+    const field = fields.find((f) => f.name.toLowerCase() === name.toLowerCase());
+    if (!field || !insertable.has(field.name)) {
+      throw new Error(`${objectApiName} match key field ${name} is not a createable field in both orgs`);
+    }
+    return field;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// matchKeyOf / describeMatchKey — composite key of a prepared record
+// ---------------------------------------------------------------------------
+
+// Null when any key field is blank — such records can only be inserted
+export function matchKeyOf(record: Record<string, unknown>, fields: FieldInfo[]): string | null {
+  const parts: string[] = [];
+  for (const field of fields) {
+    const value = record[field.name];
+    if (value === null || value === undefined || value === '') return null;
+    parts.push(normalize(value));
+  }
+  return parts.join(KEY_SEPARATOR);
+}
+
+export function describeMatchKey(record: Record<string, unknown>, fields: FieldInfo[]): string {
+  return fields.map((f) => `${f.name} = ${String(record[f.name])}`).join(', ');
+}
+
+// ---------------------------------------------------------------------------
+// findTargetMatches — existing target records per composite key
+// ---------------------------------------------------------------------------
+
+// Queries by the first key field and narrows by the rest in memory; lookups
+// in the key must already hold target IDs (prepared records are remapped).
+export async function findTargetMatches(
+  conn: Connection,
+  objectApiName: string,
+  fields: FieldInfo[],
+  records: Array<Record<string, unknown>>
+): Promise<Map<string, string[]>> {
+  const matches = new Map<string, string[]>();
+  const wanted = new Set(records.map((r) => matchKeyOf(r, fields)).filter((k): k is string => k !== null));
+  if (wanted.size === 0) return matches;
+
+  const [driver] = fields;
+  const literals = [
+    ...new Set(
+      records
+        .filter((r) => matchKeyOf(r, fields) !== null)
+        .map((r) => soqlLiteral(r[driver.name], driver))
+    ),
+  ];
+  const selectFields = ['Id', ...fields.map((f) => f.name)].join(', ');
+
+  const targetRecords = await queryAllChunked(
+    conn,
+    literals,
+    (chunk) => `SELECT ${selectFields} FROM ${objectApiName} WHERE ${driver.name} IN (${chunk.join(',')})`
+  );
+
+  for (const target of targetRecords) {
+    const key = matchKeyOf(target, fields);
+    if (!key || !wanted.has(key)) continue;
+    if (!matches.has(key)) matches.set(key, []);
+    matches.get(key)!.push(target['Id'] as string);
+  }
+
+  return matches;
+}
+
+// ---------------------------------------------------------------------------
+// parseMatchKeys — "--match Contact:Email+LastName" flag values
+// ---------------------------------------------------------------------------
+
+export function parseMatchKeys(values: string[], updateMatched: boolean): Map<string, MatchKeyConfig> {
+  const matchKeys = new Map<string, MatchKeyConfig>();
+  for (const value of values) {
+    const [objectApiName, fieldList] = value.split(':').map((s) => s.trim());
+    const fields = (fieldList ?? '').split('+').map((s) => s.trim()).filter(Boolean);
+    if (!objectApiName || fields.length === 0) {
+      throw new Error(`Invalid match key "${value}" — expected Object:Field+Field (e.g. Contact:Email+LastName)`);
+    }
+    matchKeys.set(objectApiName, { fields, updateMatched });
+  }
+  return matchKeys;
+}
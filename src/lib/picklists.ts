@@ -0,0 +1,243 @@
+import {
+  SeedConfig,
+  SeedError,
+  FieldInfo,
+  PicklistMapping,
+  PicklistMappingOptions,
+  PicklistValueSet,
+  TranslatedPicklistValue,
+} from './types.js';
+import { queryAll, escSoql } from './query.js';
+import { assertValidConfigFile, loadConfigFile } from './configfile.js';
+
+// ---------------------------------------------------------------------------
+// Internal types
+// ---------------------------------------------------------------------------
+
+interface RecordTypeRow {
+  Id: string;
+}
+
+// UI API /object-info/{object}/picklist-values/{recordTypeId}
+interface PicklistValuesResponse {
+  picklistFieldValues: {
+    [fieldName: string]: {
+      defaultValue: { value: string } | null;
+      values: Array<{ value: string }>;
+    };
+  };
+}
+
+const PICKLIST_TYPES = new Set(['picklist', 'multipicklist']);
+const MULTI_VALUE_SEPARATOR = ';';
+
+function fieldKey(objectApiName: string, fieldName: string): string {
+  return `${objectApiName}.${fieldName}`;
+}
+
+function translationKey(entry: Omit<TranslatedPicklistValue, 'records'>): string {
+  return [entry.objectApiName, entry.field, entry.sourceValue, entry.action].join('\u0001');
+}
+
+function noteTranslation(mapping: PicklistMapping, entry: Omit<TranslatedPicklistValue, 'records'>): void {
+  const key = translationKey(entry);
+  const existing = mapping.translated.get(key);
+  if (existing) existing.records++;
+  else mapping.translated.set(key, { ...entry, records: 1 });
+}
+
+// ---------------------------------------------------------------------------
+// loadPicklistMappingFile — Object.Field → source value → target value
+// ---------------------------------------------------------------------------
+
+export function loadPicklistMappingFile(filePath: string): Map<string, Map<string, string | null>> {
+  const raw = loadConfigFile('Picklist mapping file', filePath);
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`Picklist mapping file ${filePath} must be a mapping of Object.Field → source value → target value`);
+  }
+
+  const rules = new Map<string, Map<string, string | null>>();
+  const errors: string[] = [];
+  for (const [key, values] of Object.entries(raw as Record<string, unknown>)) {
+    if (!/^\w+\.\w+$/.test(key)) {
+      errors.push(`${key}: expected Object.Field (e.g. Account.Industry)`);
+      continue;
+    }
+    if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+      errors.push(`${key}: must be a mapping of source value → target value`);
+      continue;
+    }
+    const pairs = new Map<string, string | null>();
+    for (const [source, target] of Object.entries(values as Record<string, unknown>)) {
+      if (target !== null && typeof target !== 'string') {
+        errors.push(`${key}.${source}: target value must be a string, or null to blank the field`);
+        continue;
+      }
+      pairs.set(source, target);
+    }
+    rules.set(key, pairs);
+  }
+  assertValidConfigFile('Picklist mapping file', filePath, errors);
+
+  return rules;
+}
+
+// ---------------------------------------------------------------------------
+// buildPicklistMapping / listTranslatedPicklistValues
+// ---------------------------------------------------------------------------
+
+// Translations from an earlier attempt (resume) keep counting where they left off
+export function buildPicklistMapping(
+  options: PicklistMappingOptions,
+  previous: TranslatedPicklistValue[] = []
+): PicklistMapping {
+  return {
+    rules: options.mappingFile ? loadPicklistMappingFile(options.mappingFile) : new Map(),
+    fallback: options.fallback,
+    fieldValues: new Map(),
+    recordTypeValues: new Map(),
+    loadedObjects: new Set(),
+    translated: new Map(previous.map((entry) => [translationKey(entry), { ...entry }])),
+  };
+}
+
+export function listTranslatedPicklistValues(mapping: PicklistMapping): TranslatedPicklistValue[] {
+  return [...mapping.translated.values()].sort((a, b) => b.records - a.records);
+}
+
+// One summary line, e.g. Account.Industry "Banking" → "Finance" (mapped) — 12 record(s)
+export function describePicklistTranslation(entry: TranslatedPicklistValue): string {
+  const target =
+    entry.action === 'skip' ? 'record skipped' : entry.targetValue === null ? 'blank' : `"${entry.targetValue}"`;
+  return `${entry.objectApiName}.${entry.field} "${entry.sourceValue}" → ${target} (${entry.action}) — ${entry.records} record(s)`;
+}
+
+// ---------------------------------------------------------------------------
+// picklistFields / loadPicklistValues — target picklist metadata per object
+// ---------------------------------------------------------------------------
+
+export function picklistFields(targetFields: FieldInfo[], insertableFields: string[]): FieldInfo[] {
+  const insertable = new Set(insertableFields);
+  return targetFields.filter((f) => insertable.has(f.name) && PICKLIST_TYPES.has(f.type));
+}
+
+// Record types can narrow a restricted picklist further than its field-level
+// values; describe does not say how, so the UI API is asked per record type
+export async function loadPicklistValues(
+  config: SeedConfig,
+  objectApiName: string,
+  fields: FieldInfo[]
+): Promise<void> {
+  const mapping = config.picklistMapping;
+  if (!mapping || mapping.loadedObjects.has(objectApiName)) return;
+  mapping.loadedObjects.add(objectApiName);
+
+  for (const field of fields) {
+    mapping.fieldValues.set(fieldKey(objectApiName, field.name), {
+      values: new Set(field.picklistValues),
+      defaultValue: field.defaultPicklistValue,
+    });
+  }
+
+  const restricted = fields.filter((f) => f.restrictedPicklist);
+  if (restricted.length === 0) return;
+
+  const { targetConn, logger } = config;
+  try {
+    const recordTypes = (await queryAll(
+      targetConn,
+      `SELECT Id FROM RecordType WHERE SobjectType = '${escSoql(objectApiName)}' AND IsActive = true`
+    )) as unknown as RecordTypeRow[];
+
+    for (const recordType of recordTypes) {
+      const response = await targetConn.request<PicklistValuesResponse>(
+        `/services/data/v${targetConn.getApiVersion()}/ui-api/object-info/${objectApiName}/picklist-values/${recordType.Id}`
+      );
+      for (const field of restricted) {
+        const entry = response.picklistFieldValues[field.name];
+        if (!entry) continue;
+        mapping.recordTypeValues.set(`${fieldKey(objectApiName, field.name)}.${recordType.Id}`, {
+          values: new Set(entry.values.map((v) => v.value)),
+          defaultValue: entry.defaultValue?.value ?? null,
+        });
+      }
+    }
+  } catch (err) {
+    logger.warn(
+      `Could not read ${objectApiName} picklist values per record type — checking field-level values only (${err instanceof Error ? err.message : String(err)})`
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// applyPicklistValues — translate picklist values onto a prepared record
+// ---------------------------------------------------------------------------
+
+// Explicit mappings apply to any picklist. The fallback only applies to
+// restricted picklists — unrestricted ones accept unknown values as-is.
+// Runs after applyRecordType, so RecordTypeId already holds the target ID.
+// Returns false when the record should be left out (fallback 'skip').
+export function applyPicklistValues(
+  config: SeedConfig,
+  objectApiName: string,
+  fields: FieldInfo[],
+  source: Record<string, unknown>,
+  prepared: Record<string, unknown>,
+  errors: SeedError[]
+): boolean {
+  const mapping = config.picklistMapping;
+  if (!mapping) return true;
+
+  const recordTypeId = prepared['RecordTypeId'] as string | undefined;
+
+  for (const field of fields) {
+    const value = prepared[field.name];
+    if (value === null || value === undefined || value === '') continue;
+
+    const key = fieldKey(objectApiName, field.name);
+    const rules = mapping.rules.get(key);
+    const allowed: PicklistValueSet | undefined =
+      (recordTypeId && mapping.recordTypeValues.get(`${key}.${recordTypeId}`)) || mapping.fieldValues.get(key);
+    const accepts = (v: string): boolean => !field.restrictedPicklist || !allowed || allowed.values.has(v);
+
+    const sourceValues = field.type === 'multipicklist' ? String(value).split(MULTI_VALUE_SEPARATOR) : [String(value)];
+    const kept: string[] = [];
+    let rejected: string | null = null;
+
+    for (const sourceValue of sourceValues) {
+      if (rules?.has(sourceValue)) {
+        const targetValue = rules.get(sourceValue)!;
+        noteTranslation(mapping, { objectApiName, field: field.name, sourceValue, targetValue, action: 'mapped' });
+        if (targetValue !== null) kept.push(targetValue);
+      } else if (accepts(sourceValue)) {
+        kept.push(sourceValue);
+      } else if (mapping.fallback === 'skip') {
+        rejected = sourceValue;
+        break;
+      } else if (field.type === 'multipicklist') {
+        // Other selections are still valid, so only the rejected value is dropped
+        noteTranslation(mapping, { objectApiName, field: field.name, sourceValue, targetValue: null, action: 'null' });
+      } else {
+        const targetValue = mapping.fallback === 'default' ? allowed?.defaultValue ?? null : null;
+        noteTranslation(mapping, { objectApiName, field: field.name, sourceValue, targetValue, action: mapping.fallback });
+        if (targetValue !== null) kept.push(targetValue);
+      }
+    }
+
+    if (rejected !== null) {
+      noteTranslation(mapping, { objectApiName, field: field.name, sourceValue: rejected, targetValue: null, action: 'skip' });
+      errors.push({
+        object: objectApiName,
+        sourceId: source['Id'] as string,
+        stage: 'remap',
+        error: `${field.name} value "${rejected}" is not valid in the target org`,
+      });
+      return false;
+    }
+
+    prepared[field.name] = kept.length > 0 ? [...new Set(kept)].join(MULTI_VALUE_SEPARATOR) : null;
+  }
+
+  return true;
+}
@@ -0,0 +1,254 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { Connection } from '@salesforce/core';
+import { stringify as stringifyYaml } from 'yaml';
+import {
+  SeedPlan,
+  SeedPlanNode,
+  PersistedSeedConfig,
+  RelatedObjectConfig,
+  MatchKeyConfig,
+  SEED_PLAN_VERSION,
+} from './types.js';
+import { resolveLookupField, validateTree } from './tree.js';
+import { validateMaskingRules } from './masking.js';
+import { assertValidConfigFile, isJsonFile, loadConfigFile } from './configfile.js';
+
+// ---------------------------------------------------------------------------
+// Internal validation helpers — collect every problem with its path
+// ---------------------------------------------------------------------------
+
+type Raw = Record<string, unknown>;
+
+const PLAN_KEYS = new Set([
+  'version', 'object', 'upsertField', 'matchOn', 'updateMatched', 'count', 'where', 'children', 'includeTasks',
+  'includeEvents', 'includeFiles', 'includeAttachments', 'includeNotes', 'convertLegacyFiles', 'includeFeed',
+  'masking',
+]);
+const NODE_KEYS = new Set(['object', 'lookupField', 'upsertField', 'matchOn', 'updateMatched', 'where', 'children']);
+
+const API_NAME = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+function isObject(val: unknown): val is Raw {
+  return typeof val === 'object' && val !== null && !Array.isArray(val);
+}
+
+function checkKeys(raw: Raw, allowed: Set<string>, path: string, errors: string[]): void {
+  for (const key of Object.keys(raw)) {
+    if (!allowed.has(key)) {
+      errors.push(`${path}${key}: unknown key (allowed: ${[...allowed].join(', ')})`);
+    }
+  }
+}
+
+function checkApiName(raw: Raw, key: string, path: string, errors: string[], required: boolean): void {
+  const val = raw[key];
+  if (val === undefined) {
+    if (required) errors.push(`${path}${key}: is required`);
+    return;
+  }
+  if (typeof val !== 'string' || !API_NAME.test(val)) {
+    errors.push(`${path}${key}: must be an API name (letters, digits, underscores), got ${JSON.stringify(val)}`);
+  }
+}
+
+function checkString(raw: Raw, key: string, path: string, errors: string[]): void {
+  const val = raw[key];
+  if (val !== undefined && (typeof val !== 'string' || val.trim() === '')) {
+    errors.push(`${path}${key}: must be a non-empty string`);
+  }
+}
+
+function checkBoolean(raw: Raw, key: string, path: string, errors: string[]): void {
+  const val = raw[key];
+  if (val !== undefined && typeof val !== 'boolean') {
+    errors.push(`${path}${key}: must be true or false, got ${JSON.stringify(val)}`);
+  }
+}
+
+// matchOn is a list of field API names; it replaces upsertField, and updateMatched only applies with it
+function checkMatchKey(raw: Raw, path: string, errors: string[]): void {
+  const val = raw['matchOn'];
+  if (val !== undefined) {
+    if (!Array.isArray(val) || val.length === 0 || val.some((f) => typeof f !== 'string' || !API_NAME.test(f))) {
+      errors.push(`${path}matchOn: must be a non-empty list of field API names, got ${JSON.stringify(val)}`);
+    }
+    if (raw['upsertField'] !== undefined) {
+      errors.push(`${path}matchOn: cannot be combined with upsertField`);
+    }
+  }
+  checkBoolean(raw, 'updateMatched', path, errors);
+  if (raw['updateMatched'] !== undefined && val === undefined) {
+    errors.push(`${path}updateMatched: requires matchOn`);
+  }
+}
+
+function checkNodes(val: unknown, path: string, errors: string[]): void {
+  if (val === undefined) return;
+  if (!Array.isArray(val)) {
+    errors.push(`${path}: must be a list`);
+    return;
+  }
+
+  val.forEach((node, idx) => {
+    const nodePath = `${path}[${idx}]`;
+    if (!isObject(node)) {
+      errors.push(`${nodePath}: must be an object with at least "object"`);
+      return;
+    }
+    checkKeys(node, NODE_KEYS, `${nodePath}.`, errors);
+    checkApiName(node, 'object', `${nodePath}.`, errors, true);
+    checkApiName(node, 'lookupField', `${nodePath}.`, errors, false);
+    checkApiName(node, 'upsertField', `${nodePath}.`, errors, false);
+    checkMatchKey(node, `${nodePath}.`, errors);
+    checkString(node, 'where', `${nodePath}.`, errors);
+    checkNodes(node['children'], `${nodePath}.children`, errors);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// validatePlan — structural validation of a parsed plan document
+// ---------------------------------------------------------------------------
+
+export function validatePlan(raw: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isObject(raw)) {
+    return ['plan must be a mapping with at least "version" and "object"'];
+  }
+
+  checkKeys(raw, PLAN_KEYS, '', errors);
+
+  if (raw['version'] !== SEED_PLAN_VERSION) {
+    errors.push(`version: must be ${SEED_PLAN_VERSION}, got ${JSON.stringify(raw['version'])}`);
+  }
+  checkApiName(raw, 'object', '', errors, true);
+  checkApiName(raw, 'upsertField', '', errors, false);
+  checkMatchKey(raw, '', errors);
+  checkString(raw, 'where', '', errors);
+
+  const count = raw['count'];
+  if (count !== undefined) {
+    const isAll = typeof count === 'string' && count.toLowerCase() === 'all';
+    const isPositiveInt = typeof count === 'number' && Number.isInteger(count) && count > 0;
+    if (!isAll && !isPositiveInt) {
+      errors.push(`count: must be a positive integer or "All", got ${JSON.stringify(count)}`);
+    }
+  }
+
+  checkBoolean(raw, 'includeTasks', '', errors);
+  checkBoolean(raw, 'includeEvents', '', errors);
+  checkBoolean(raw, 'includeFiles', '', errors);
+  checkBoolean(raw, 'includeAttachments', '', errors);
+  checkBoolean(raw, 'includeNotes', '', errors);
+  checkBoolean(raw, 'convertLegacyFiles', '', errors);
+  checkBoolean(raw, 'includeFeed', '', errors);
+  checkNodes(raw['children'], 'children', errors);
+  if (raw['masking'] !== undefined) errors.push(...validateMaskingRules(raw['masking'], 'masking'));
+
+  return errors;
+}
+
+// ---------------------------------------------------------------------------
+// loadPlan — parse JSON or YAML (by extension) and validate
+// ---------------------------------------------------------------------------
+
+export function loadPlan(filePath: string): SeedPlan {
+  const raw = loadConfigFile('Plan file', filePath);
+
+  const errors = validatePlan(raw);
+  assertValidConfigFile('Plan file', filePath, errors);
+
+  const plan = raw as SeedPlan;
+  if (typeof plan.count === 'string') plan.count = 'All';
+  return plan;
+}
+
+// ---------------------------------------------------------------------------
+// resolvePlan — turn a plan into config, auto-detecting missing lookup fields
+// ---------------------------------------------------------------------------
+
+function toMatchKey(node: Pick<SeedPlanNode, 'matchOn' | 'updateMatched'>): MatchKeyConfig | undefined {
+  return node.matchOn ? { fields: node.matchOn, updateMatched: node.updateMatched ?? false } : undefined;
+}
+
+export async function resolvePlan(conn: Connection, plan: SeedPlan): Promise<PersistedSeedConfig> {
+  const resolveNodes = async (nodes: SeedPlanNode[] | undefined, parentObject: string): Promise<RelatedObjectConfig[]> => {
+    const resolved: RelatedObjectConfig[] = [];
+    for (const node of nodes ?? []) {
+      const lookupField = node.lookupField ?? (await resolveLookupField(conn, parentObject, node.object));
+      if (!lookupField) {
+        throw new Error(`Plan: could not find lookup from ${node.object} to ${parentObject} — set lookupField explicitly`);
+      }
+      resolved.push({
+        objectApiName: node.object,
+        lookupField,
+        externalIdField: node.upsertField,
+        matchKey: toMatchKey(node),
+        whereClause: node.where,
+        children: await resolveNodes(node.children, node.object),
+      });
+    }
+    return resolved;
+  };
+
+  const children = await resolveNodes(plan.children, plan.object);
+  validateTree(plan.object, children);
+
+  return {
+    coreObject: { objectApiName: plan.object, externalIdField: plan.upsertField, matchKey: toMatchKey(plan) },
+    children,
+    includeTasks: plan.includeTasks ?? false,
+    includeEvents: plan.includeEvents ?? false,
+    includeFiles: plan.includeFiles ?? false,
+    includeAttachments: plan.includeAttachments ?? false,
+    includeNotes: plan.includeNotes ?? false,
+    convertLegacyFiles: plan.convertLegacyFiles ?? false,
+    includeFeed: plan.includeFeed ?? false,
+    recordCount: plan.count ?? 10,
+    whereClause: plan.where,
+    masking: plan.masking,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// planFromConfig / savePlan — capture a configured run as a plan file
+// ---------------------------------------------------------------------------
+
+export function planFromConfig(config: PersistedSeedConfig): SeedPlan {
+  const fromMatchKey = (matchKey?: MatchKeyConfig): Pick<SeedPlanNode, 'matchOn' | 'updateMatched'> =>
+    matchKey ? { matchOn: matchKey.fields, ...(matchKey.updateMatched ? { updateMatched: true } : {}) } : {};
+
+  const toNodes = (nodes: RelatedObjectConfig[]): SeedPlanNode[] =>
+    nodes.map((n) => ({
+      object: n.objectApiName,
+      lookupField: n.lookupField,
+      ...(n.externalIdField ? { upsertField: n.externalIdField } : {}),
+      ...fromMatchKey(n.matchKey),
+      ...(n.whereClause ? { where: n.whereClause } : {}),
+      ...(n.children.length > 0 ? { children: toNodes(n.children) } : {}),
+    }));
+
+  return {
+    version: SEED_PLAN_VERSION,
+    object: config.coreObject.objectApiName,
+    ...(config.coreObject.externalIdField ? { upsertField: config.coreObject.externalIdField } : {}),
+    ...fromMatchKey(config.coreObject.matchKey),
+    count: config.recordCount,
+    ...(config.whereClause ? { where: config.whereClause } : {}),
+    ...(config.children.length > 0 ? { children: toNodes(config.children) } : {}),
+    includeTasks: config.includeTasks,
+    includeEvents: config.includeEvents,
+    includeFiles: config.includeFiles,
+    ...(config.includeAttachments ? { includeAttachments: true } : {}),
+    ...(config.includeNotes ? { includeNotes: true } : {}),
+    ...(config.convertLegacyFiles ? { convertLegacyFiles: true } : {}),
+    ...(config.includeFeed ? { includeFeed: true } : {}),
+    ...(config.masking ? { masking: config.masking } : {}),
+  };
+}
+
+export function savePlan(filePath: string, plan: SeedPlan): void {
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, isJsonFile(filePath) ? `${JSON.stringify(plan, null, 2)}\n` : stringifyYaml(plan));
+}
@@ -0,0 +1,373 @@
+import { Connection } from '@salesforce/core';
+import chalk from 'chalk';
+import {
+  PersistedSeedConfig,
+  SeederLogger,
+  RecordSource,
+  FieldInfo,
+  PreflightIssue,
+  PreflightReport,
+  ObjectPreflightResult,
+  PicklistFallback,
+  PicklistMappingOptions,
+  DEFAULT_PREFLIGHT_SAMPLE_SIZE,
+  ACTIVITY_SYSTEM_FIELDS,
+  SYSTEM_LOOKUP_OBJECTS,
+} from './types.js';
+import { queryAll, buildSelectFields, buildSeedQuery } from './query.js';
+import { getObjectFields, getInsertableFieldNames } from './schema.js';
+import { flattenTree } from './tree.js';
+import { loadPicklistMappingFile } from './picklists.js';
+
+// ---------------------------------------------------------------------------
+// Internal types
+// ---------------------------------------------------------------------------
+
+interface PreflightScope {
+  objectApiName: string;
+  // Lookup to the parent in the seed tree; always remapped by the seeder
+  parentLookup?: string;
+  whereClause?: string;
+  limit: number;
+  core: boolean;
+  activity: boolean;
+}
+
+// Picklist mapping rules and fallback the seed run would apply
+interface PreflightPicklists {
+  rules: Map<string, Map<string, string | null>>;
+  fallback: PicklistFallback;
+}
+
+type SampleRecord = Record<string, unknown>;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function countPopulated(sample: SampleRecord[], fieldName: string): number {
+  return sample.filter((r) => !isBlank(r[fieldName])).length;
+}
+
+// Booleans are never null, and defaulted fields are filled in by the platform
+function requiredOnCreate(field: FieldInfo): boolean {
+  return field.createable && !field.nillable && !field.defaultedOnCreate && field.type !== 'boolean';
+}
+
+// Objects named by the core object's lookups — the seeder pulls those records in
+function dependencyObjects(core: string, coreFields: FieldInfo[], followPolymorphic: boolean): string[] {
+  return coreFields
+    .filter((f) => f.createable && f.type === 'reference')
+    .map((f) => f.referenceTo.filter((o) => o !== core && !SYSTEM_LOOKUP_OBJECTS.has(o)))
+    .filter((targets) => targets.length === 1 || (targets.length > 1 && followPolymorphic))
+    .flat();
+}
+
+// Core, every node of the relationship tree (first path wins), then activities
+function scopeOf(config: PersistedSeedConfig, sampleSize: number): PreflightScope[] {
+  const coreLimit = config.recordCount === 'All' ? sampleSize : Math.min(config.recordCount, sampleSize);
+  const scope: PreflightScope[] = [
+    {
+      objectApiName: config.coreObject.objectApiName,
+      whereClause: config.whereClause,
+      limit: coreLimit,
+      core: true,
+      activity: false,
+    },
+  ];
+
+  for (const node of flattenTree(config.coreObject.objectApiName, config.children)) {
+    if (scope.some((s) => s.objectApiName === node.config.objectApiName)) continue;
+    const parentFilter = `${node.config.lookupField} != null`;
+    scope.push({
+      objectApiName: node.config.objectApiName,
+      parentLookup: node.config.lookupField,
+      whereClause: node.config.whereClause ? `${parentFilter} AND (${node.config.whereClause})` : parentFilter,
+      limit: sampleSize,
+      core: false,
+      activity: false,
+    });
+  }
+
+  if (config.includeTasks) scope.push({ objectApiName: 'Task', limit: sampleSize, core: false, activity: true });
+  if (config.includeEvents) scope.push({ objectApiName: 'Event', limit: sampleSize, core: false, activity: true });
+  return scope;
+}
+
+// ---------------------------------------------------------------------------
+// Per-object checks
+// ---------------------------------------------------------------------------
+
+function checkDroppedFields(
+  sourceInsertable: string[],
+  targetByName: Map<string, FieldInfo>,
+  sample: SampleRecord[],
+  issues: PreflightIssue[]
+): void {
+  const unused: string[] = [];
+
+  for (const name of sourceInsertable) {
+    const target = targetByName.get(name);
+    if (target?.createable) continue;
+
+    const populated = countPopulated(sample, name);
+    if (populated === 0 && sample.length > 0) {
+      unused.push(name);
+      continue;
+    }
+    issues.push({
+      severity: 'warning',
+      field: name,
+      message: `${target ? 'read-only' : 'missing'} in the target org — populated in ${populated} of ${sample.length} sampled record(s), not seeded`,
+    });
+  }
+
+  if (unused.length > 0) {
+    issues.push({
+      severity: 'warning',
+      message: `${unused.length} field(s) missing or read-only in the target org but empty in the sample: ${unused.join(', ')}`,
+    });
+  }
+}
+
+function checkRequiredFields(
+  targetFields: FieldInfo[],
+  insertable: Set<string>,
+  sourceByName: Map<string, FieldInfo>,
+  sample: SampleRecord[],
+  issues: PreflightIssue[]
+): void {
+  for (const field of targetFields.filter(requiredOnCreate)) {
+    if (!insertable.has(field.name)) {
+      const source = sourceByName.get(field.name);
+      issues.push({
+        severity: 'blocking',
+        field: field.name,
+        message: `required in the target org but ${source ? 'not createable' : 'missing'} in the source — every insert will fail`,
+      });
+      continue;
+    }
+
+    const blank = sample.length - countPopulated(sample, field.name);
+    if (blank > 0) {
+      issues.push({
+        severity: 'blocking',
+        field: field.name,
+        message: `required in the target org but blank in ${blank} of ${sample.length} sampled record(s)`,
+      });
+    }
+  }
+}
+
+function checkFieldTypes(
+  insertable: Set<string>,
+  sourceByName: Map<string, FieldInfo>,
+  targetByName: Map<string, FieldInfo>,
+  issues: PreflightIssue[]
+): void {
+  for (const name of insertable) {
+    const sourceType = sourceByName.get(name)!.type;
+    const targetType = targetByName.get(name)!.type;
+    if (sourceType !== targetType) {
+      issues.push({ severity: 'warning', field: name, message: `${sourceType} in the source org but ${targetType} in the target` });
+    }
+  }
+}
+
+// Values with a mapping rule are translated before insert; the rest hit the fallback
+function checkRestrictedPicklists(
+  objectApiName: string,
+  insertable: Set<string>,
+  targetByName: Map<string, FieldInfo>,
+  sample: SampleRecord[],
+  picklists: PreflightPicklists,
+  issues: PreflightIssue[]
+): void {
+  for (const name of insertable) {
+    const target = targetByName.get(name)!;
+    if (!target.restrictedPicklist) continue;
+
+    const allowed = new Set(target.picklistValues);
+    const rules = picklists.rules.get(`${objectApiName}.${name}`);
+    const missing = new Map<string, number>();
+    for (const record of sample) {
+      const value = record[name];
+      if (isBlank(value)) continue;
+      const values = target.type === 'multipicklist' ? String(value).split(';') : [String(value)];
+      for (const v of values.filter((v) => !allowed.has(v) && !rules?.has(v))) missing.set(v, (missing.get(v) ?? 0) + 1);
+    }
+
+    if (missing.size > 0) {
+      const list = [...missing].map(([v, n]) => `"${v}" (${n})`).join(', ');
+      const outcome =
+        picklists.fallback === 'skip'
+          ? 'records holding them are skipped'
+          : picklists.fallback === 'default' && target.type === 'picklist'
+            ? 'replaced by the target default value'
+            : 'left blank';
+      issues.push({
+        severity: 'warning',
+        field: name,
+        message: `restricted picklist in the target org is missing sampled value(s) ${list} — ${outcome}`,
+      });
+    }
+  }
+}
+
+// Lookups to objects outside the seed are blanked (or fail the record when required)
+function checkLookupTargets(
+  scope: PreflightScope,
+  insertable: Set<string>,
+  targetByName: Map<string, FieldInfo>,
+  seededObjects: Set<string>,
+  sample: SampleRecord[],
+  issues: PreflightIssue[]
+): void {
+  for (const name of insertable) {
+    const target = targetByName.get(name)!;
+    if (target.type !== 'reference' || name === scope.parentLookup) continue;
+
+    const dataTargets = target.referenceTo.filter((o) => !SYSTEM_LOOKUP_OBJECTS.has(o));
+    if (dataTargets.length === 0 || dataTargets.some((o) => seededObjects.has(o))) continue;
+
+    const populated = countPopulated(sample, name);
+    if (populated === 0) continue;
+
+    const objects = dataTargets.join('/');
+    issues.push(
+      target.nillable
+        ? {
+          severity: 'warning',
+          field: name,
+          message: `points at ${objects}, which is not seeded — left blank in ${populated} of ${sample.length} sampled record(s)`,
+        }
+        : {
+          severity: 'blocking',
+          field: name,
+          message: `required lookup to ${objects}, which is not seeded — ${populated} of ${sample.length} sampled record(s) will fail`,
+        }
+    );
+  }
+}
+
+async function checkObject(
+  sourceConn: RecordSource,
+  targetConn: Connection,
+  scope: PreflightScope,
+  seededObjects: Set<string>,
+  followPolymorphic: boolean,
+  picklists: PreflightPicklists
+): Promise<ObjectPreflightResult> {
+  const { objectApiName } = scope;
+  const issues: PreflightIssue[] = [];
+  const result: ObjectPreflightResult = { objectApiName, sampled: 0, issues };
+
+  let sourceFields: FieldInfo[];
+  let targetFields: FieldInfo[];
+  try {
+    sourceFields = await getObjectFields(sourceConn, objectApiName);
+  } catch (err) {
+    issues.push({ severity: 'blocking', message: `cannot be described in the source org (${err instanceof Error ? err.message : String(err)})` });
+    return result;
+  }
+  try {
+    targetFields = await getObjectFields(targetConn, objectApiName);
+  } catch (err) {
+    issues.push({ severity: 'blocking', message: `does not exist or is not accessible in the target org (${err instanceof Error ? err.message : String(err)})` });
+    return result;
+  }
+  if (scope.core) {
+    for (const obj of dependencyObjects(objectApiName, sourceFields, followPolymorphic)) seededObjects.add(obj);
+  }
+
+  const sourceByName = new Map(sourceFields.map((f) => [f.name, f]));
+  const targetByName = new Map(targetFields.map((f) => [f.name, f]));
+  const sourceInsertable = getInsertableFieldNames(sourceFields, scope.activity ? ACTIVITY_SYSTEM_FIELDS : undefined);
+  const insertable = new Set(sourceInsertable.filter((name) => targetByName.get(name)?.createable));
+
+  let sample: SampleRecord[] = [];
+  try {
+    sample = await queryAll(
+      sourceConn,
+      buildSeedQuery(buildSelectFields(sourceInsertable), objectApiName, scope.whereClause, scope.limit)
+    );
+  } catch (err) {
+    issues.push({ severity: 'warning', message: `could not sample source records (${err instanceof Error ? err.message : String(err)})` });
+  }
+  result.sampled = sample.length;
+
+  checkRequiredFields(targetFields, insertable, sourceByName, sample, issues);
+  checkRestrictedPicklists(objectApiName, insertable, targetByName, sample, picklists, issues);
+  checkLookupTargets(scope, insertable, targetByName, seededObjects, sample, issues);
+  checkDroppedFields(sourceInsertable, targetByName, sample, issues);
+  checkFieldTypes(insertable, sourceByName, targetByName, issues);
+
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Main entry point: runPreflight
+// ---------------------------------------------------------------------------
+
+export async function runPreflight(
+  sourceConn: RecordSource,
+  targetConn: Connection,
+  config: PersistedSeedConfig,
+  logger: SeederLogger,
+  options: {
+    sampleSize?: number;
+    pullPolymorphicDependencies?: boolean;
+    picklistMappingOptions?: PicklistMappingOptions;
+  } = {}
+): Promise<PreflightReport> {
+  const scopes = scopeOf(config, options.sampleSize ?? DEFAULT_PREFLIGHT_SAMPLE_SIZE);
+  const { mappingFile, fallback } = options.picklistMappingOptions ?? { fallback: 'default' };
+  const picklists: PreflightPicklists = {
+    rules: mappingFile ? loadPicklistMappingFile(mappingFile) : new Map(),
+    fallback,
+  };
+  // The core object is checked first and adds its pulled-in dependencies to this set
+  const seededObjects = new Set(scopes.filter((s) => !s.activity).map((s) => s.objectApiName));
+  const report: PreflightReport = { objects: [], blocking: 0, warnings: 0 };
+
+  for (const scope of scopes) {
+    logger.startSpinner(`Preflight: checking ${scope.objectApiName}...`);
+    const result = await checkObject(
+      sourceConn, targetConn, scope, seededObjects, options.pullPolymorphicDependencies ?? false, picklists
+    );
+    logger.stopSpinner(`${scope.objectApiName}: ${result.issues.length} issue(s)`);
+    report.objects.push(result);
+  }
+
+  for (const { issues } of report.objects) {
+    report.blocking += issues.filter((i) => i.severity === 'blocking').length;
+    report.warnings += issues.filter((i) => i.severity === 'warning').length;
+  }
+  return report;
+}
+
+// ---------------------------------------------------------------------------
+// logPreflightReport — issues grouped by object, blocking first
+// ---------------------------------------------------------------------------
+
+export function logPreflightReport(report: PreflightReport, logger: SeederLogger): void {
+  logger.log('\n' + chalk.bold.cyan('═══ PREFLIGHT ═══'));
+
+  for (const { objectApiName, sampled, issues } of report.objects) {
+    const status = issues.length === 0 ? chalk.green('compatible') : `${issues.length} issue(s)`;
+    logger.log(`  ${chalk.bold(objectApiName)} (${sampled} sampled): ${status}`);
+
+    const ordered = [...issues].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'blocking' ? -1 : 1));
+    for (const issue of ordered) {
+      const label = issue.severity === 'blocking' ? chalk.red('BLOCKING') : chalk.yellow('WARNING ');
+      logger.log(`    ${label} ${issue.field ? `${issue.field}: ` : ''}${issue.message}`);
+    }
+  }
+
+  const summary = `\n  ${report.blocking} blocking issue(s), ${report.warnings} warning(s)`;
+  logger.log(report.blocking > 0 ? chalk.red(summary) : summary);
+}
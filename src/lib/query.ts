@@ -1,31 +1,19 @@
-import { Connection } from '@salesforce/core';
-import { QUERY_CHUNK_SIZE } from './types.js';
-
-// ---------------------------------------------------------------------------
-// Internal query result type (jsforce returns this shape)
-// ---------------------------------------------------------------------------
-
-interface QueryResult {
-  done: boolean;
-  nextRecordsUrl?: string;
-  records: Array<Record<string, unknown>>;
-  totalSize: number;
-}
+import { RecordSource, QUERY_CHUNK_SIZE } from './types.js';
 
 // ---------------------------------------------------------------------------
 // queryAll — paginate via queryMore
 // ---------------------------------------------------------------------------
 
 export async function queryAll(
-  conn: Connection,
+  conn: RecordSource,
   soql: string
 ): Promise<Array<Record<string, unknown>>> {
   const records: Array<Record<string, unknown>> = [];
-  let result = (await conn.query(soql)) as unknown as QueryResult;
+  let result = await conn.query(soql);
   records.push(...result.records);
 
   while (!result.done) {
-    result = (await conn.queryMore(result.nextRecordsUrl!)) as unknown as QueryResult;
+    result = await conn.queryMore(result.nextRecordsUrl!);
     records.push(...result.records);
   }
 
@@ -37,7 +25,7 @@ export async function queryAll(
 // ---------------------------------------------------------------------------
 
 export async function queryAllChunked(
-  conn: Connection,
+  conn: RecordSource,
   values: string[],
   soqlBuilder: (chunk: string[]) => string,
   chunkSize = QUERY_CHUNK_SIZE
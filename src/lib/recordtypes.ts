@@ -0,0 +1,106 @@
+import { Connection } from '@salesforce/core';
+import {
+  SeedConfig,
+  SeedError,
+  SeederLogger,
+  RecordSource,
+  RecordTypeMapping,
+  MASTER_RECORD_TYPE_ID,
+} from './types.js';
+import { queryAll } from './query.js';
+
+// ---------------------------------------------------------------------------
+// Internal types
+// ---------------------------------------------------------------------------
+
+interface RecordTypeRow {
+  Id: string;
+  SobjectType: string;
+  DeveloperName: string;
+  IsActive: boolean;
+}
+
+export const RECORD_TYPE_SOQL = 'SELECT Id, SobjectType, DeveloperName, IsActive FROM RecordType';
+
+function recordTypeKey(row: RecordTypeRow): string {
+  return `${row.SobjectType}.${row.DeveloperName}`;
+}
+
+// ---------------------------------------------------------------------------
+// buildRecordTypeMapping — query both orgs once and match by DeveloperName
+// ---------------------------------------------------------------------------
+
+export async function buildRecordTypeMapping(
+  sourceConn: RecordSource,
+  targetConn: Connection,
+  logger: SeederLogger
+): Promise<RecordTypeMapping> {
+  const mapping: RecordTypeMapping = { mapped: new Map(), missing: new Map(), warned: new Set() };
+
+  const sourceRows = (await queryAll(sourceConn, RECORD_TYPE_SOQL)) as unknown as RecordTypeRow[];
+  const targetRows = (await queryAll(targetConn, RECORD_TYPE_SOQL)) as unknown as RecordTypeRow[];
+  const targetByKey = new Map(targetRows.map((row) => [recordTypeKey(row), row]));
+
+  for (const row of sourceRows) {
+    const key = recordTypeKey(row);
+    const target = targetByKey.get(key);
+    if (!target) {
+      mapping.missing.set(row.Id, `${key} does not exist in the target org`);
+    } else if (!target.IsActive) {
+      mapping.missing.set(row.Id, `${key} is inactive in the target org`);
+    } else {
+      mapping.mapped.set(row.Id, target.Id);
+    }
+  }
+
+  logger.log(`  Record types: ${mapping.mapped.size} matched, ${mapping.missing.size} without a target match`);
+  return mapping;
+}
+
+// ---------------------------------------------------------------------------
+// applyRecordType — translate RecordTypeId onto a prepared record
+// ---------------------------------------------------------------------------
+
+// Returns false when the record should be left out (fallback 'skip'). Records
+// are untouched when no mapping was built, so RecordTypeId stays stripped.
+export function applyRecordType(
+  config: SeedConfig,
+  objectApiName: string,
+  source: Record<string, unknown>,
+  prepared: Record<string, unknown>,
+  errors: SeedError[]
+): boolean {
+  const mapping = config.recordTypeMapping;
+  const sourceRecordTypeId = source['RecordTypeId'] as string | null | undefined;
+  if (!mapping || !sourceRecordTypeId) return true;
+
+  if (sourceRecordTypeId === MASTER_RECORD_TYPE_ID) {
+    prepared['RecordTypeId'] = MASTER_RECORD_TYPE_ID;
+    return true;
+  }
+
+  const targetRecordTypeId = mapping.mapped.get(sourceRecordTypeId);
+  if (targetRecordTypeId) {
+    prepared['RecordTypeId'] = targetRecordTypeId;
+    return true;
+  }
+
+  delete prepared['RecordTypeId'];
+  const reason = mapping.missing.get(sourceRecordTypeId) ?? `${sourceRecordTypeId} is not visible in the source org`;
+
+  if (config.recordTypeFallback === 'skip') {
+    errors.push({
+      object: objectApiName,
+      sourceId: source['Id'] as string,
+      stage: 'remap',
+      error: `Record type ${reason}`,
+    });
+    return false;
+  }
+
+  if (!mapping.warned.has(sourceRecordTypeId)) {
+    mapping.warned.add(sourceRecordTypeId);
+    config.logger.warn(`Record type ${reason} — ${objectApiName} records fall back to the target default`);
+  }
+  return true;
+}
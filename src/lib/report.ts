@@ -0,0 +1,198 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import {
+  SeedConfig,
+  SeedResults,
+  SeedError,
+  ObjectSeedResult,
+  ReportFormat,
+  RunReport,
+  REPORT_VERSION,
+  CONTENT_DOCUMENT_MAP_KEY,
+} from './types.js';
+import { toPersistedConfig } from './checkpoint.js';
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+interface ReportCase {
+  name: string;
+  // Objects whose SeedErrors belong to this case
+  objects: string[];
+  failed: number;
+  summary: string;
+}
+
+const CSV_COLUMNS: Array<keyof SeedError> = ['object', 'sourceId', 'stage', 'error'];
+
+function csvCell(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function objectCase(r: ObjectSeedResult): ReportCase {
+  const matched = r.matched !== undefined ? ` matched=${r.matched}` : '';
+  return {
+    name: r.parentObject ? `${r.parentObject} > ${r.objectApiName}` : r.objectApiName,
+    objects: [r.objectApiName],
+    failed: r.failed,
+    summary: `queried=${r.queried} inserted=${r.inserted} updated=${r.updated}${matched} failed=${r.failed} skipped=${r.skipped}`,
+  };
+}
+
+// One case per seeded object, in pipeline order; objects that only show up in
+// errors (lookup targets pulled in as dependencies, deferred updates) get their own
+function reportCases(results: SeedResults): ReportCase[] {
+  const cases: ReportCase[] = [objectCase(results.coreObject), ...results.related.map(objectCase)];
+
+  for (const activities of [results.tasks, results.events]) {
+    if (!activities) continue;
+    cases.push(objectCase(activities));
+    if (activities.relations) cases.push(objectCase(activities.relations));
+  }
+  if (results.files) {
+    const f = results.files;
+    cases.push({
+      name: 'Files',
+      objects: [CONTENT_DOCUMENT_MAP_KEY, 'ContentVersion', 'ContentDocumentLink'],
+      failed: f.filesFailed,
+      summary: `found=${f.filesFound} uploaded=${f.filesUploaded} failed=${f.filesFailed} links=${f.linksCreated}`,
+    });
+  }
+  for (const [name, r] of [['Attachment', results.attachments], ['Note', results.notes]] as const) {
+    if (!r) continue;
+    cases.push({
+      name,
+      objects: [name, ...(r.convertedTo ? [r.convertedTo] : [])],
+      failed: r.failed,
+      summary: `found=${r.found} inserted=${r.inserted} failed=${r.failed}`,
+    });
+  }
+  if (results.feed) {
+    cases.push(objectCase(results.feed.posts), objectCase(results.feed.comments));
+  }
+
+  // A related object can appear under several parents — its errors go to the first case
+  const claimed = new Set<string>();
+  for (const c of cases) {
+    c.objects = c.objects.filter((obj) => !claimed.has(obj));
+    c.objects.forEach((obj) => claimed.add(obj));
+  }
+  for (const object of new Set(results.errors.map((e) => e.object))) {
+    if (!claimed.has(object)) cases.push({ name: object, objects: [object], failed: 0, summary: '' });
+  }
+
+  return cases;
+}
+
+function toCsv(report: RunReport): string {
+  // A run that threw adds one row for the error that stopped it
+  const errors: SeedError[] = report.error
+    ? [...report.results.errors, { object: '', stage: 'run', error: report.error }]
+    : report.results.errors;
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const err of errors) {
+    lines.push(CSV_COLUMNS.map((column) => csvCell(err[column])).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+function toJUnit(report: RunReport): string {
+  const suite = `seedbuddy.${report.command}`;
+  const cases = reportCases(report.results);
+  let failures = 0;
+
+  const body = cases.map((c) => {
+    const errors = report.results.errors.filter((e) => c.objects.includes(e.object));
+    const lines = [`    <testcase classname="${xmlEscape(suite)}" name="${xmlEscape(c.name)}" time="0">`];
+    if (c.failed > 0 || errors.length > 0) {
+      failures++;
+      const message = `${Math.max(c.failed, errors.length)} record(s) failed`;
+      const detail = errors.map((e) => `[${e.object}] ${e.stage}${e.sourceId ? ` ${e.sourceId}` : ''}: ${e.error}`).join('\n');
+      lines.push(`      <failure message="${xmlEscape(message)}" type="SeedError">${xmlEscape(detail)}</failure>`);
+    }
+    if (c.summary) lines.push(`      <system-out>${xmlEscape(c.summary)}</system-out>`);
+    lines.push('    </testcase>');
+    return lines.join('\n');
+  });
+  if (report.error) {
+    body.push(
+      [
+        `    <testcase classname="${xmlEscape(suite)}" name="Run" time="${report.elapsedSeconds}">`,
+        `      <error message="Run did not finish" type="RunError">${xmlEscape(report.error)}</error>`,
+        '    </testcase>',
+      ].join('\n')
+    );
+  }
+
+  const attributes =
+    `tests="${body.length}" failures="${failures}" errors="${report.error ? 1 : 0}" time="${report.elapsedSeconds}"`;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="seedbuddy" ${attributes}>`,
+    `  <testsuite name="${xmlEscape(suite)}" ${attributes} timestamp="${report.startedAt}">`,
+    ...body,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// buildRunReport — results plus the timing and configuration of the run
+// ---------------------------------------------------------------------------
+
+export function buildRunReport(
+  command: string,
+  config: SeedConfig,
+  results: SeedResults,
+  startTime: number,
+  error?: unknown
+): RunReport {
+  const endTime = Date.now();
+  return {
+    version: REPORT_VERSION,
+    command,
+    startedAt: new Date(startTime).toISOString(),
+    finishedAt: new Date(endTime).toISOString(),
+    elapsedSeconds: Math.round((endTime - startTime) / 100) / 10,
+    sourceInstanceUrl: config.sourceConn.instanceUrl,
+    targetInstanceUrl: config.targetConn.instanceUrl,
+    ...(config.runFile ? { runFile: config.runFile } : {}),
+    config: toPersistedConfig(config),
+    results,
+    ...(error !== undefined ? { error: error instanceof Error ? error.message : String(error) } : {}),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// writeRunReport — JSON (full report), CSV (one row per error) or JUnit XML
+// ---------------------------------------------------------------------------
+
+export function writeRunReport(filePath: string, format: ReportFormat, report: RunReport): void {
+  let content: string;
+  switch (format) {
+    case 'csv':
+      content = toCsv(report);
+      break;
+    case 'junit':
+      content = toJUnit(report);
+      break;
+    default:
+      content = JSON.stringify(report, null, 2) + '\n';
+  }
+
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, content);
+}
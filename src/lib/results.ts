@@ -0,0 +1,20 @@
+// ---------------------------------------------------------------------------
+// DML result shapes (jsforce returns these for create/update/upsert/destroy)
+// ---------------------------------------------------------------------------
+
+export interface SaveError {
+  statusCode: string;
+  message: string;
+  fields: string[];
+}
+
+export interface InsertResult {
+  id?: string;
+  success: boolean;
+  errors?: SaveError[];
+}
+
+export function formatErrors(errors?: SaveError[]): string {
+  if (!errors || errors.length === 0) return 'Unknown error';
+  return errors.map((e) => `${e.statusCode}: ${e.message}${e.fields?.length ? ` [${e.fields.join(', ')}]` : ''}`).join('; ');
+}
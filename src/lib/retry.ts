@@ -0,0 +1,256 @@
+import { Connection } from '@salesforce/core';
+import {
+  RunState,
+  FailedRecord,
+  IdMap,
+  IdMapCollection,
+  RetryResults,
+  ObjectRetryResult,
+  ObjectSeedResult,
+  SeedError,
+  SeederLogger,
+  BATCH_SIZE,
+} from './types.js';
+import { recordFailures, restoreIdMaps, saveRunState } from './checkpoint.js';
+import { buildManifest, manifestPathFor, writeManifest } from './manifest.js';
+import { queryAllChunked, inClause } from './query.js';
+import { InsertResult, formatErrors } from './results.js';
+import { findInAnyIdMap } from './seeder.js';
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+// Failed records grouped per object and operation, in the order they first
+// failed — which is seeding order, so parents are retried before children
+function groupFailures(failedRecords: FailedRecord[]): FailedRecord[][] {
+  const groups = new Map<string, FailedRecord[]>();
+  for (const record of failedRecords) {
+    const key = `${record.objectApiName}:${record.operation}:${record.externalIdField ?? ''}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(record);
+  }
+  return [...groups.values()];
+}
+
+// Lookups whose target was created after the record failed (e.g. a parent
+// that failed alongside it) now resolve; the rest keep their saved value
+function remapPayload(record: FailedRecord, idMaps: IdMapCollection): Record<string, unknown> {
+  const payload = { ...record.payload };
+  for (const [fieldName, sourceId] of Object.entries(record.lookups ?? {})) {
+    const targetId = findInAnyIdMap(idMaps, sourceId);
+    if (targetId) payload[fieldName] = targetId;
+  }
+  return payload;
+}
+
+// Upserts that update an existing record may come back without an ID
+async function queryUpsertedIds(
+  conn: Connection,
+  objectApiName: string,
+  externalIdField: string,
+  records: Array<{ sourceId: string; payload: Record<string, unknown> }>,
+  idMap: IdMap
+): Promise<void> {
+  const bySourceValue = new Map(
+    records
+      .filter((r) => r.payload[externalIdField] !== null && r.payload[externalIdField] !== undefined)
+      .map((r) => [String(r.payload[externalIdField]), r.sourceId])
+  );
+  if (bySourceValue.size === 0) return;
+
+  const targetRecords = await queryAllChunked(
+    conn,
+    [...bySourceValue.keys()],
+    (chunk) => `SELECT Id, ${externalIdField} FROM ${objectApiName} WHERE ${externalIdField} IN (${inClause(chunk)})`
+  );
+  for (const tr of targetRecords) {
+    const sourceId = bySourceValue.get(String(tr[externalIdField] ?? ''));
+    if (sourceId && tr['Id']) idMap.set(sourceId, tr['Id'] as string);
+  }
+}
+
+// The seed results saved in the run file — rollback, resume summaries and
+// reports read these. A related object seeded under several parents counts
+// its failures against the first, as the report does.
+function objectResultFor(state: RunState, objectApiName: string): ObjectSeedResult | undefined {
+  const { results } = state;
+  return [
+    results.coreObject,
+    ...results.related,
+    results.tasks,
+    results.tasks?.relations,
+    results.events,
+    results.events?.relations,
+    results.feed?.posts,
+    results.feed?.comments,
+  ].find((r): r is ObjectSeedResult => r?.objectApiName === objectApiName);
+}
+
+// Move retried records from failed to inserted/updated and drop their old errors
+function recordRetrySuccesses(
+  state: RunState,
+  objectApiName: string,
+  succeeded: Array<{ sourceId: string; operation: FailedRecord['operation']; created: boolean }>
+): void {
+  if (succeeded.length === 0) return;
+
+  const result = objectResultFor(state, objectApiName);
+  if (result) {
+    for (const { operation, created } of succeeded) {
+      result.failed = Math.max(0, result.failed - 1);
+      if (operation === 'update' || !created) result.updated++;
+      else result.inserted++;
+    }
+  }
+
+  const resolved = new Map(succeeded.map((r) => [r.sourceId, r.operation]));
+  state.results.errors = state.results.errors.filter(
+    (e) => e.object !== objectApiName || !e.sourceId || resolved.get(e.sourceId) !== e.stage
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Batch retry with result tracking
+// ---------------------------------------------------------------------------
+
+async function retryBatch(
+  conn: Connection,
+  batch: FailedRecord[],
+  state: RunState,
+  idMaps: IdMapCollection,
+  errors: SeedError[]
+): Promise<{ succeeded: number; failed: number }> {
+  const { objectApiName, operation, externalIdField } = batch[0];
+  const idMap = (idMaps[objectApiName] ??= new Map());
+  const payloads = batch.map((record) => remapPayload(record, idMaps));
+
+  const results =
+    operation === 'update'
+      ? await conn.sobject(objectApiName).update(payloads as Array<Record<string, unknown> & { Id: string }>)
+      : operation === 'upsert' && externalIdField
+        ? await conn.sobject(objectApiName).upsert(payloads, externalIdField)
+        : await conn.sobject(objectApiName).create(payloads);
+  const resultArray = (Array.isArray(results) ? results : [results]) as Array<InsertResult & { created?: boolean }>;
+
+  let succeeded = 0;
+  let failed = 0;
+  const stillFailing: FailedRecord[] = [];
+  const recovered: Array<{ sourceId: string; operation: FailedRecord['operation']; created: boolean }> = [];
+  const missingIds: Array<{ sourceId: string; payload: Record<string, unknown> }> = [];
+
+  for (let j = 0; j < resultArray.length; j++) {
+    const r = resultArray[j];
+    const record = batch[j];
+    if (r.success) {
+      succeeded++;
+      recovered.push({ sourceId: record.sourceId, operation, created: r.created !== false });
+      // Matched records are already in the ID map and kept out of rollback
+      if (operation === 'update') continue;
+      if (r.id) idMap.set(record.sourceId, r.id);
+      else missingIds.push({ sourceId: record.sourceId, payload: payloads[j] });
+      // Updated records existed before the run — they must never be rolled back
+      if (r.created === false && r.id) state.matchedTargetIds.push(r.id);
+    } else {
+      failed++;
+      const error = formatErrors(r.errors);
+      errors.push({ object: objectApiName, sourceId: record.sourceId, stage: operation, error });
+      stillFailing.push({ ...record, payload: payloads[j], error });
+    }
+  }
+
+  if (missingIds.length > 0 && externalIdField) {
+    await queryUpsertedIds(conn, objectApiName, externalIdField, missingIds, idMap);
+  }
+
+  const retried = new Set(batch.map((r) => r.sourceId));
+  state.failedRecords = (state.failedRecords ?? []).filter(
+    (f) => f.objectApiName !== objectApiName || !retried.has(f.sourceId)
+  );
+  recordFailures(state, stillFailing);
+  recordRetrySuccesses(state, objectApiName, recovered);
+
+  return { succeeded, failed };
+}
+
+// ---------------------------------------------------------------------------
+// Main entry point: runRetry
+// ---------------------------------------------------------------------------
+
+export async function runRetry(
+  conn: Connection,
+  runFile: string,
+  state: RunState,
+  logger: SeederLogger,
+  dryRun: boolean,
+  objectFilter?: string[],
+  shouldAbort?: (() => boolean) | null
+): Promise<RetryResults> {
+  const errors: SeedError[] = [];
+  const results: RetryResults = { objects: [], errors, dryRun, remaining: 0 };
+  const idMaps = restoreIdMaps(state);
+
+  const checkpoint = (): void => {
+    saveRunState(runFile, state, idMaps, state.results);
+    writeManifest(manifestPathFor(runFile), buildManifest(state, idMaps));
+  };
+
+  // A resumed run may already have committed records that failed the first time;
+  // failed updates are of matched records, which are in the ID map from the start
+  const failedRecords = (state.failedRecords ?? []).filter(
+    (f) => f.operation === 'update' || !idMaps[f.objectApiName]?.has(f.sourceId)
+  );
+  const resolved = (state.failedRecords ?? []).length - failedRecords.length;
+  if (resolved > 0 && !dryRun) {
+    logger.log(`  ${resolved} failed record(s) were committed by a later attempt — dropping them`);
+    state.failedRecords = failedRecords;
+    checkpoint();
+  }
+
+  const wanted = objectFilter?.map((o) => o.toLowerCase());
+  const selected = wanted
+    ? failedRecords.filter((f) => wanted.includes(f.objectApiName.toLowerCase()))
+    : failedRecords;
+
+  for (const group of groupFailures(selected)) {
+    const { objectApiName, operation } = group[0];
+    if (shouldAbort?.()) {
+      logger.warn(`Aborted before ${objectApiName}`);
+      break;
+    }
+
+    const objectResult: ObjectRetryResult = { objectApiName, attempted: group.length, succeeded: 0, failed: 0 };
+    results.objects.push(objectResult);
+
+    if (dryRun) {
+      logger.log(`  [DRY RUN] Would retry ${group.length} ${objectApiName} ${operation}(s)`);
+      continue;
+    }
+
+    logger.startSpinner(`Retrying ${group.length} ${objectApiName} records...`);
+
+    for (let i = 0; i < group.length; i += BATCH_SIZE) {
+      const batch = group.slice(i, i + BATCH_SIZE);
+      logger.updateSpinner(
+        `Retrying ${objectApiName} batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(group.length / BATCH_SIZE)} (${batch.length} records)`
+      );
+
+      try {
+        const { succeeded, failed } = await retryBatch(conn, batch, state, idMaps, errors);
+        objectResult.succeeded += succeeded;
+        objectResult.failed += failed;
+      } catch (err) {
+        objectResult.failed += batch.length;
+        errors.push({ object: objectApiName, stage: operation, error: err instanceof Error ? err.message : String(err) });
+      }
+
+      // Persist after every batch so the run file and rollback manifest never miss a created record
+      checkpoint();
+    }
+
+    logger.stopSpinner(`${objectApiName}: ${objectResult.succeeded} succeeded, ${objectResult.failed} failed`);
+  }
+
+  results.remaining = (state.failedRecords ?? []).length;
+  return results;
+}
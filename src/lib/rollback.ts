@@ -0,0 +1,120 @@
+import { Connection } from '@salesforce/core';
+import {
+  RunManifest,
+  RollbackResults,
+  ObjectRollbackResult,
+  SeedError,
+  SeederLogger,
+  BATCH_SIZE,
+} from './types.js';
+import { orderForRollback } from './manifest.js';
+import { InsertResult, formatErrors } from './results.js';
+
+// ---------------------------------------------------------------------------
+// Batch delete with result tracking
+// ---------------------------------------------------------------------------
+
+async function batchDelete(
+  conn: Connection,
+  objectApiName: string,
+  targetIds: string[],
+  errors: SeedError[],
+  logger: SeederLogger
+): Promise<{ deleted: number; failed: number }> {
+  let deleted = 0;
+  let failed = 0;
+
+  for (let i = 0; i < targetIds.length; i += BATCH_SIZE) {
+    const batch = targetIds.slice(i, i + BATCH_SIZE);
+
+    logger.updateSpinner(
+      `Deleting ${objectApiName} batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(targetIds.length / BATCH_SIZE)} (${batch.length} records)`
+    );
+
+    const results = await conn.sobject(objectApiName).destroy(batch);
+    const resultArray: InsertResult[] = Array.isArray(results)
+      ? (results as InsertResult[])
+      : [results as InsertResult];
+
+    for (let j = 0; j < resultArray.length; j++) {
+      const r = resultArray[j];
+      if (r.success) {
+        deleted++;
+      } else {
+        // Already gone (cascade delete from a parent) counts as rolled back
+        if (r.errors?.some((e) => e.statusCode === 'ENTITY_IS_DELETED' || e.statusCode === 'INVALID_CROSS_REFERENCE_KEY')) {
+          deleted++;
+          continue;
+        }
+        failed++;
+        errors.push({
+          object: objectApiName,
+          stage: 'delete',
+          error: `${batch[j]}: ${formatErrors(r.errors)}`,
+        });
+      }
+    }
+  }
+
+  return { deleted, failed };
+}
+
+// ---------------------------------------------------------------------------
+// Main entry point: runRollback
+// ---------------------------------------------------------------------------
+
+export async function runRollback(
+  conn: Connection,
+  manifest: RunManifest,
+  logger: SeederLogger,
+  dryRun: boolean,
+  shouldAbort?: (() => boolean) | null
+): Promise<RollbackResults> {
+  const errors: SeedError[] = [];
+  const results: RollbackResults = { objects: [], errors, dryRun };
+
+  const ordered = orderForRollback(manifest);
+
+  for (const entry of ordered) {
+    if (shouldAbort?.()) {
+      logger.warn(`Aborted before ${entry.objectApiName}`);
+      return results;
+    }
+
+    const objectResult: ObjectRollbackResult = {
+      objectApiName: entry.objectApiName,
+      tier: entry.tier,
+      requested: entry.targetIds.length,
+      deleted: 0,
+      failed: 0,
+    };
+
+    if (dryRun) {
+      logger.log(`  [DRY RUN] Would delete ${entry.targetIds.length} ${entry.objectApiName} (${entry.tier}) records`);
+      objectResult.deleted = entry.targetIds.length;
+      results.objects.push(objectResult);
+      continue;
+    }
+
+    logger.startSpinner(`Deleting ${entry.targetIds.length} ${entry.objectApiName} (${entry.tier}) records...`);
+
+    try {
+      const { deleted, failed } = await batchDelete(conn, entry.objectApiName, entry.targetIds, errors, logger);
+      objectResult.deleted = deleted;
+      objectResult.failed = failed;
+      logger.stopSpinner(`${entry.objectApiName}: ${deleted} deleted, ${failed} failed`);
+    } catch (err) {
+      objectResult.failed = entry.targetIds.length;
+      errors.push({
+        object: entry.objectApiName,
+        stage: 'delete',
+        error: err instanceof Error ? err.message : String(err),
+      });
+      logger.stopSpinnerFail(`${entry.objectApiName}: delete failed — ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    results.objects.push(objectResult);
+  }
+
+  return results;
+}
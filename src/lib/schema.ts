@@ -1,8 +1,9 @@
-import { Connection } from '@salesforce/core';
 import {
+  RecordSource,
   ObjectInfo,
   FieldInfo,
   ChildRelationship,
+  KeyPrefixMap,
   SYSTEM_READONLY_FIELDS,
   EXCLUDED_CHILD_OBJECTS,
   EXCLUDED_CHILD_SUFFIXES,
@@ -12,7 +13,7 @@ import {
 // getAllObjects — describeGlobal filtered to queryable + createable
 // ---------------------------------------------------------------------------
 
-export async function getAllObjects(conn: Connection): Promise<ObjectInfo[]> {
+export async function getAllObjects(conn: RecordSource): Promise<ObjectInfo[]> {
   const result = await conn.describeGlobal();
   return result.sobjects
     .filter((o) => o.queryable && o.createable)
@@ -25,12 +26,25 @@ export async function getAllObjects(conn: Connection): Promise<ObjectInfo[]> {
     .sort((a, b) => a.label.localeCompare(b.label));
 }
 
+// ---------------------------------------------------------------------------
+// getKeyPrefixMap / objectForId — which object an ID belongs to
+// ---------------------------------------------------------------------------
+
+export async function getKeyPrefixMap(conn: RecordSource): Promise<KeyPrefixMap> {
+  const objects = await getAllObjects(conn);
+  return new Map(objects.filter((o) => o.keyPrefix).map((o) => [o.keyPrefix!, o.name]));
+}
+
+export function objectForId(keyPrefixes: KeyPrefixMap, id: string): string | null {
+  return keyPrefixes.get(id.slice(0, 3)) ?? null;
+}
+
 // ---------------------------------------------------------------------------
 // getObjectFields — full field metadata for an object
 // ---------------------------------------------------------------------------
 
 export async function getObjectFields(
-  conn: Connection,
+  conn: RecordSource,
   objectApiName: string
 ): Promise<FieldInfo[]> {
   const describe = await conn.describe(objectApiName);
@@ -44,6 +58,11 @@ export async function getObjectFields(
     unique: f.unique ?? false,
     referenceTo: (f.referenceTo ?? []) as string[],
     relationshipName: (f.relationshipName as string) ?? null,
+    // Snapshot schemas written before these were captured leave them out
+    defaultedOnCreate: f.defaultedOnCreate ?? false,
+    restrictedPicklist: f.restrictedPicklist ?? false,
+    picklistValues: (f.picklistValues ?? []).filter((p) => p.active).map((p) => p.value),
+    defaultPicklistValue: (f.picklistValues ?? []).find((p) => p.active && p.defaultValue)?.value ?? null,
   }));
 }
 
@@ -52,7 +71,7 @@ export async function getObjectFields(
 // ---------------------------------------------------------------------------
 
 export async function getChildRelationships(
-  conn: Connection,
+  conn: RecordSource,
   objectApiName: string
 ): Promise<ChildRelationship[]> {
   const describe = await conn.describe(objectApiName);
@@ -90,31 +109,30 @@ export async function getChildRelationships(
 }
 
 // ---------------------------------------------------------------------------
-// getGrandchildRelationships — children of children, avoiding circular refs
+// getDescendantRelationships — next level down the tree, avoiding cycles
 // ---------------------------------------------------------------------------
 
-export async function getGrandchildRelationships(
-  conn: Connection,
-  childObjectNames: string[],
-  coreObjectApiName: string
-): Promise<Array<ChildRelationship & { parentChildObject: string }>> {
-  const grandchildren: Array<ChildRelationship & { parentChildObject: string }> = [];
-  const alreadyInScope = new Set([coreObjectApiName, ...childObjectNames]);
+export async function getDescendantRelationships(
+  conn: RecordSource,
+  parentObjectNames: string[],
+  objectsInScope: Set<string>
+): Promise<Array<ChildRelationship & { parentObject: string }>> {
+  const descendants: Array<ChildRelationship & { parentObject: string }> = [];
 
-  for (const childName of childObjectNames) {
-    const childRels = await getChildRelationships(conn, childName);
+  for (const parentName of parentObjectNames) {
+    const childRels = await getChildRelationships(conn, parentName);
     for (const rel of childRels) {
-      // Avoid circular references — skip if the grandchild is the core object or another child
-      if (alreadyInScope.has(rel.childSObject)) continue;
+      // Avoid circular references — skip anything already in the tree (core, ancestors, siblings)
+      if (objectsInScope.has(rel.childSObject)) continue;
 
-      grandchildren.push({
+      descendants.push({
         ...rel,
-        parentChildObject: childName,
+        parentObject: parentName,
       });
     }
   }
 
-  return grandchildren.sort((a, b) => a.childSObject.localeCompare(b.childSObject));
+  return descendants.sort((a, b) => a.childSObject.localeCompare(b.childSObject));
 }
 
 // ---------------------------------------------------------------------------
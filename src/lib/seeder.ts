@@ -3,16 +3,35 @@ import {
   SeedConfig,
   SeedResults,
   ObjectSeedResult,
+  ActivitySeedResult,
   FileSeedResult,
+  LegacyFileSeedResult,
+  FeedSeedResult,
   SeedError,
+  FailedRecord,
   IdMap,
   IdMapCollection,
   SeederLogger,
   FieldInfo,
+  RunState,
+  SeedStep,
+  BatchOptions,
+  DependencyEdge,
+  DeferredLookup,
+  KeyPrefixMap,
+  MatchKeyConfig,
   BATCH_SIZE,
+  DEFAULT_DEPENDENCY_DEPTH,
+  DEFAULT_CONCURRENCY,
+  DEFAULT_FILE_STREAM_THRESHOLD_MB,
+  MAX_FILE_UPLOAD_BYTES,
+  CONTENT_DOCUMENT_MAP_KEY,
+  CHECKPOINT_INTERVAL_MS,
   SYSTEM_READONLY_FIELDS,
   ACTIVITY_SYSTEM_FIELDS,
   SYSTEM_LOOKUP_OBJECTS,
+  CREATABLE_FEED_ITEM_TYPES,
+  CREATABLE_FEED_COMMENT_TYPES,
 } from './types.js';
 import {
   queryAll,
@@ -26,34 +45,45 @@ import {
   getObjectFields,
   getInsertableFieldNames,
   findLookupFieldsToRemap,
+  getKeyPrefixMap,
+  objectForId,
 } from './schema.js';
-
-// ---------------------------------------------------------------------------
-// Internal types
-// ---------------------------------------------------------------------------
-
-interface SaveError {
-  statusCode: string;
-  message: string;
-  fields: string[];
-}
-
-interface InsertResult {
-  id?: string;
-  success: boolean;
-  errors?: SaveError[];
-}
-
-function formatErrors(errors?: SaveError[]): string {
-  if (!errors || errors.length === 0) return 'Unknown error';
-  return errors.map((e) => `${e.statusCode}: ${e.message}${e.fields?.length ? ` [${e.fields.join(', ')}]` : ''}`).join('; ');
-}
+import {
+  createRunState,
+  saveRunState,
+  restoreIdMaps,
+  recordFailures,
+  dedupeErrors,
+  isStepComplete,
+  markStepComplete,
+  isObjectComplete,
+  markObjectComplete,
+} from './checkpoint.js';
+import { buildManifest, manifestPathFor, writeManifest } from './manifest.js';
+import { InsertResult, formatErrors } from './results.js';
+import { bulkLoad, shouldUseBulk } from './bulk.js';
+import { flattenTree, orderRelatedNodes, treeDepth } from './tree.js';
+import { concurrentLogger, runPool } from './concurrency.js';
+import { maskRecord, newMaskingSalt } from './masking.js';
+import { describeDeferred, orderDependencies } from './dependencies.js';
+import { applyRecordType, buildRecordTypeMapping } from './recordtypes.js';
+import { applyUserLookups, buildUserMapping, listUnmatchedUsers, userLookupFields } from './users.js';
+import { applyGroupLookups, buildGroupMapping, groupLookupFields } from './groups.js';
+import {
+  applyPicklistValues,
+  buildPicklistMapping,
+  listTranslatedPicklistValues,
+  loadPicklistValues,
+  picklistFields,
+} from './picklists.js';
+import { downloadAttachmentBody, downloadVersionData, openVersionData, uploadVersionData } from './files.js';
+import { describeMatchKey, findTargetMatches, matchKeyOf, resolveMatchFields } from './match.js';
 
 // ---------------------------------------------------------------------------
 // ID map helpers
 // ---------------------------------------------------------------------------
 
-function findInAnyIdMap(
+export function findInAnyIdMap(
   idMaps: IdMapCollection,
   sourceId: string
 ): string | undefined {
@@ -64,9 +94,25 @@ function findInAnyIdMap(
   return undefined;
 }
 
+// Polymorphic values only name their object through the ID's key prefix, so
+// they are remapped through that object's IdMap rather than any map that matches
+function findByKeyPrefix(
+  keyPrefixes: KeyPrefixMap | undefined,
+  idMaps: IdMapCollection,
+  sourceId: string
+): string | undefined {
+  if (!keyPrefixes) return findInAnyIdMap(idMaps, sourceId);
+  const objectApiName = objectForId(keyPrefixes, sourceId);
+  return objectApiName ? idMaps[objectApiName]?.get(sourceId) : undefined;
+}
+
+const LEAF_FILE_MAP_KEYS = new Set([CONTENT_DOCUMENT_MAP_KEY, 'Attachment', 'Note']);
+
 function getAllSourceIds(idMaps: IdMapCollection): string[] {
   const all: string[] = [];
   for (const objectName of Object.keys(idMaps)) {
+    // ContentDocument, Attachment and Note IDs are tracked for resume/rollback only — nothing links to them
+    if (LEAF_FILE_MAP_KEYS.has(objectName)) continue;
     for (const sourceId of idMaps[objectName].keys()) {
       all.push(sourceId);
     }
@@ -74,6 +120,16 @@ function getAllSourceIds(idMaps: IdMapCollection): string[] {
   return all;
 }
 
+// Source IDs behind each prepared record's lookups, saved with the record if
+// the target org rejects it so a retry can remap them against newer targets
+const preparedLookups = new WeakMap<Record<string, unknown>, { [fieldName: string]: string }>();
+
+function noteLookup(prepared: Record<string, unknown>, fieldName: string, sourceId: string): void {
+  const lookups = preparedLookups.get(prepared) ?? {};
+  lookups[fieldName] = sourceId;
+  preparedLookups.set(prepared, lookups);
+}
+
 // ---------------------------------------------------------------------------
 // Record preparation — remap lookups, strip non-insertable fields
 // ---------------------------------------------------------------------------
@@ -85,7 +141,8 @@ function prepareRecord(
   allReferenceFields: FieldInfo[],
   idMaps: IdMapCollection,
   errors: SeedError[],
-  objectApiName: string
+  objectApiName: string,
+  keyPrefixes?: KeyPrefixMap
 ): Record<string, unknown> | null {
   const prepared: Record<string, unknown> = {};
   const insertableSet = new Set(insertableFields);
@@ -101,7 +158,11 @@ function prepareRecord(
 
     if (lookupField && value !== null) {
       const sourceId = value as string;
-      const targetId = findInAnyIdMap(idMaps, sourceId);
+      noteLookup(prepared, fieldName, sourceId);
+      const targetId =
+        lookupField.referenceTo.length > 1
+          ? findByKeyPrefix(keyPrefixes, idMaps, sourceId)
+          : findInAnyIdMap(idMaps, sourceId);
 
       if (targetId) {
         prepared[fieldName] = targetId;
@@ -119,7 +180,11 @@ function prepareRecord(
         return null;
       }
     } else if (allRefFieldNames.has(fieldName) && !inScopeFieldNames.has(fieldName) && value !== null) {
-      // Out-of-scope reference field — source ID won't exist in target, strip it
+      // Out-of-scope reference field — keep it only if the referenced record was
+      // seeded anyway (e.g. pulled in as a dependency), otherwise strip it
+      noteLookup(prepared, fieldName, value as string);
+      const targetId = keyPrefixes ? findByKeyPrefix(keyPrefixes, idMaps, value as string) : undefined;
+      if (targetId) prepared[fieldName] = targetId;
       continue;
     } else {
       prepared[fieldName] = value;
@@ -129,6 +194,12 @@ function prepareRecord(
   return prepared;
 }
 
+// Masking runs on the prepared record, after remapping, so lookups are never touched
+function maskPrepared(config: SeedConfig, objectApiName: string, record: Record<string, unknown>): void {
+  if (!config.masking || !config.maskingSalt) return;
+  maskRecord(record, objectApiName, config.masking, config.maskingSalt);
+}
+
 // ---------------------------------------------------------------------------
 // Batch insert with result tracking
 // ---------------------------------------------------------------------------
@@ -141,7 +212,8 @@ async function batchInsert(
   idMap: IdMap,
   errors: SeedError[],
   logger: SeederLogger,
-  dryRun: boolean
+  dryRun: boolean,
+  options?: BatchOptions
 ): Promise<{ inserted: number; failed: number }> {
   let inserted = 0;
   let failed = 0;
@@ -151,6 +223,20 @@ async function batchInsert(
     return { inserted: records.length, failed: 0 };
   }
 
+  // Resume — records already in the IdMap were committed by an earlier attempt
+  const pending = skipCommitted(records, sourceIds, idMap);
+  if (pending.committed > 0) {
+    logger.log(`  ${objectApiName}: ${pending.committed} record(s) already committed — resuming`);
+    inserted += pending.committed;
+    records = pending.records;
+    sourceIds = pending.sourceIds;
+  }
+
+  if (shouldUseBulk(options, records.length)) {
+    const result = await bulkLoad(conn, objectApiName, 'insert', records, sourceIds, idMap, errors, logger, options);
+    return { inserted: inserted + result.inserted, failed: result.failed };
+  }
+
   for (let i = 0; i < records.length; i += BATCH_SIZE) {
     const batch = records.slice(i, i + BATCH_SIZE);
     const batchSourceIds = sourceIds.slice(i, i + BATCH_SIZE);
@@ -164,6 +250,8 @@ async function batchInsert(
       ? (results as InsertResult[])
       : [results as InsertResult];
 
+    const failures: FailedRecord[] = [];
+
     for (let j = 0; j < resultArray.length; j++) {
       const r = resultArray[j];
       if (r.success && r.id) {
@@ -171,19 +259,40 @@ async function batchInsert(
         inserted++;
       } else {
         failed++;
-        errors.push({
-          object: objectApiName,
-          sourceId: batchSourceIds[j],
-          stage: 'insert',
-          error: formatErrors(r.errors),
-        });
+        const error = formatErrors(r.errors);
+        errors.push({ object: objectApiName, sourceId: batchSourceIds[j], stage: 'insert', error });
+        failures.push({ objectApiName, sourceId: batchSourceIds[j], operation: 'insert', payload: batch[j], error });
       }
     }
+
+    if (failures.length > 0) options?.onRecordsFailed?.(failures);
+    options?.onBatchCommitted?.(objectApiName, i + batch.length, records.length);
   }
 
   return { inserted, failed };
 }
 
+function skipCommitted(
+  records: Array<Record<string, unknown>>,
+  sourceIds: string[],
+  idMap: IdMap
+): { records: Array<Record<string, unknown>>; sourceIds: string[]; committed: number } {
+  const pendingRecords: Array<Record<string, unknown>> = [];
+  const pendingSourceIds: string[] = [];
+
+  for (let i = 0; i < records.length; i++) {
+    if (idMap.has(sourceIds[i])) continue;
+    pendingRecords.push(records[i]);
+    pendingSourceIds.push(sourceIds[i]);
+  }
+
+  return {
+    records: pendingRecords,
+    sourceIds: pendingSourceIds,
+    committed: records.length - pendingRecords.length,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Batch upsert with result tracking
 // ---------------------------------------------------------------------------
@@ -197,7 +306,8 @@ async function batchUpsert(
   idMap: IdMap,
   errors: SeedError[],
   logger: SeederLogger,
-  dryRun: boolean
+  dryRun: boolean,
+  options?: BatchOptions
 ): Promise<{ inserted: number; updated: number; failed: number }> {
   let inserted = 0;
   let updated = 0;
@@ -208,6 +318,22 @@ async function batchUpsert(
     return { inserted: records.length, updated: 0, failed: 0 };
   }
 
+  // Resume — records already in the IdMap were committed by an earlier attempt
+  const pending = skipCommitted(records, sourceIds, idMap);
+  if (pending.committed > 0) {
+    logger.log(`  ${objectApiName}: ${pending.committed} record(s) already committed — resuming`);
+    inserted += pending.committed;
+    records = pending.records;
+    sourceIds = pending.sourceIds;
+  }
+
+  if (shouldUseBulk(options, records.length)) {
+    const result = await bulkLoad(
+      conn, objectApiName, 'upsert', records, sourceIds, idMap, errors, logger, options, externalIdField
+    );
+    return { inserted: inserted + result.inserted, updated: result.updated, failed: result.failed };
+  }
+
   for (let i = 0; i < records.length; i += BATCH_SIZE) {
     const batch = records.slice(i, i + BATCH_SIZE);
     const batchSourceIds = sourceIds.slice(i, i + BATCH_SIZE);
@@ -218,6 +344,8 @@ async function batchUpsert(
 
     const results = await conn.sobject(objectApiName).upsert(batch, externalIdField);
     const resultArray = Array.isArray(results) ? results : [results];
+    const matchedSourceIds: string[] = [];
+    const failures: FailedRecord[] = [];
 
     for (let j = 0; j < resultArray.length; j++) {
       const r = resultArray[j] as InsertResult & { created?: boolean };
@@ -227,16 +355,21 @@ async function batchUpsert(
         }
         if (r.created === false) {
           updated++;
+          matchedSourceIds.push(batchSourceIds[j]);
         } else {
           inserted++;
         }
       } else {
         failed++;
-        errors.push({
-          object: objectApiName,
+        const error = formatErrors(r.errors);
+        errors.push({ object: objectApiName, sourceId: batchSourceIds[j], stage: 'upsert', error });
+        failures.push({
+          objectApiName,
           sourceId: batchSourceIds[j],
-          stage: 'upsert',
-          error: formatErrors(r.errors),
+          operation: 'upsert',
+          externalIdField,
+          payload: batch[j],
+          error,
         });
       }
     }
@@ -281,11 +414,152 @@ async function batchUpsert(
         }
       }
     }
+
+    // Updated records existed before this run — they must never be rolled back
+    const matchedTargetIds = matchedSourceIds.map((sid) => idMap.get(sid)).filter((id): id is string => !!id);
+    if (matchedTargetIds.length > 0) options?.onRecordsMatched?.(objectApiName, matchedTargetIds);
+    if (failures.length > 0) options?.onRecordsFailed?.(failures);
+
+    options?.onBatchCommitted?.(objectApiName, i + batch.length, records.length);
   }
 
   return { inserted, updated, failed };
 }
 
+// ---------------------------------------------------------------------------
+// Batch match — link existing target records by composite key, insert the rest
+// ---------------------------------------------------------------------------
+
+async function batchMatch(
+  conn: Connection,
+  objectApiName: string,
+  records: Array<Record<string, unknown>>,
+  sourceIds: string[],
+  matchFields: FieldInfo[],
+  updateMatched: boolean,
+  idMap: IdMap,
+  errors: SeedError[],
+  logger: SeederLogger,
+  dryRun: boolean,
+  options?: BatchOptions
+): Promise<{ inserted: number; updated: number; matched: number; failed: number; matchedSourceIds: string[] }> {
+  let inserted = 0;
+  let updated = 0;
+  let failed = 0;
+  const keyLabel = matchFields.map((f) => f.name).join(' + ');
+  const resumedMatches: string[] = [];
+
+  // Resume — records already in the IdMap were matched or inserted by an earlier attempt;
+  // matched ones are told apart by the target IDs the run file keeps out of rollback
+  if (!dryRun) {
+    const previouslyMatched = new Set(options?.resumeState?.matchedTargetIds ?? []);
+    for (const sourceId of sourceIds) {
+      const targetId = idMap.get(sourceId);
+      if (targetId && previouslyMatched.has(targetId)) resumedMatches.push(sourceId);
+    }
+    const pending = skipCommitted(records, sourceIds, idMap);
+    if (pending.committed > 0) {
+      logger.log(`  ${objectApiName}: ${pending.committed} record(s) already committed — resuming`);
+      inserted += pending.committed - resumedMatches.length;
+      records = pending.records;
+      sourceIds = pending.sourceIds;
+    }
+  }
+
+  logger.updateSpinner(`Matching ${records.length} ${objectApiName} records on ${keyLabel}...`);
+  const targetMatches = await findTargetMatches(conn, objectApiName, matchFields, records);
+
+  const toInsert: Array<Record<string, unknown>> = [];
+  const toInsertSourceIds: string[] = [];
+  const matchedPairs: Array<{ record: Record<string, unknown>; sourceId: string; targetId: string }> = [];
+
+  for (let i = 0; i < records.length; i++) {
+    const key = matchKeyOf(records[i], matchFields);
+    const candidates = key ? targetMatches.get(key) ?? [] : [];
+
+    if (candidates.length === 0) {
+      toInsert.push(records[i]);
+      toInsertSourceIds.push(sourceIds[i]);
+    } else if (candidates.length === 1) {
+      matchedPairs.push({ record: records[i], sourceId: sourceIds[i], targetId: candidates[0] });
+    } else {
+      failed++;
+      errors.push({
+        object: objectApiName,
+        sourceId: sourceIds[i],
+        stage: 'match',
+        error: `${candidates.length} target records match ${describeMatchKey(records[i], matchFields)} — ambiguous`,
+      });
+    }
+  }
+
+  if (dryRun) {
+    logger.log(
+      `  [DRY RUN] Would match ${matchedPairs.length} ${objectApiName} record(s) on ${keyLabel}${updateMatched ? ' (and update them)' : ''} and insert ${toInsert.length}`
+    );
+    return {
+      inserted: toInsert.length,
+      updated: updateMatched ? matchedPairs.length : 0,
+      matched: matchedPairs.length,
+      failed,
+      matchedSourceIds: matchedPairs.map((m) => m.sourceId),
+    };
+  }
+
+  // Matched records existed before this run — they must never be rolled back
+  for (const { sourceId, targetId } of matchedPairs) idMap.set(sourceId, targetId);
+  if (matchedPairs.length > 0) {
+    options?.onRecordsMatched?.(objectApiName, matchedPairs.map((m) => m.targetId));
+    options?.onBatchCommitted?.(objectApiName, matchedPairs.length, records.length);
+  }
+
+  if (updateMatched) {
+    for (let i = 0; i < matchedPairs.length; i += BATCH_SIZE) {
+      const batch = matchedPairs.slice(i, i + BATCH_SIZE);
+      logger.updateSpinner(
+        `Updating matched ${objectApiName} batch ${Math.floor(i / BATCH_SIZE) + 1}/${Math.ceil(matchedPairs.length / BATCH_SIZE)}`
+      );
+
+      const payloads = batch.map((m) => ({ ...m.record, Id: m.targetId }));
+      const updateResults = await conn.sobject(objectApiName).update(payloads);
+      const resultArray = Array.isArray(updateResults) ? updateResults : [updateResults];
+      const failures: FailedRecord[] = [];
+
+      for (let j = 0; j < resultArray.length; j++) {
+        const r = resultArray[j] as InsertResult;
+        if (r.success) {
+          updated++;
+        } else {
+          failed++;
+          const error = formatErrors(r.errors);
+          errors.push({ object: objectApiName, sourceId: batch[j].sourceId, stage: 'update', error });
+          failures.push({
+            objectApiName,
+            sourceId: batch[j].sourceId,
+            operation: 'update',
+            payload: payloads[j],
+            lookups: preparedLookups.get(batch[j].record),
+            error,
+          });
+        }
+      }
+      if (failures.length > 0) options?.onRecordsFailed?.(failures);
+    }
+  }
+
+  const result = await batchInsert(
+    conn, objectApiName, toInsert, toInsertSourceIds, idMap, errors, logger, dryRun, options
+  );
+
+  return {
+    inserted: inserted + result.inserted,
+    updated,
+    matched: resumedMatches.length + matchedPairs.length,
+    failed: failed + result.failed,
+    matchedSourceIds: [...resumedMatches, ...matchedPairs.map((m) => m.sourceId)],
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Reference field categorization for core object
 // ---------------------------------------------------------------------------
@@ -294,6 +568,7 @@ interface RefFieldCategories {
   systemFields: Set<string>;
   selfRefFields: Set<string>;
   dependencyFields: Map<string, string>;  // fieldName -> target object API name
+  polymorphicFields: Map<string, string[]>;  // fieldName -> non-system target object API names
 }
 
 function categorizeReferenceFields(
@@ -303,6 +578,7 @@ function categorizeReferenceFields(
   const systemFields = new Set<string>();
   const selfRefFields = new Set<string>();
   const dependencyFields = new Map<string, string>();
+  const polymorphicFields = new Map<string, string[]>();
 
   for (const f of fields) {
     if (!f.createable || f.referenceTo.length === 0 || f.type !== 'reference') continue;
@@ -328,125 +604,276 @@ function categorizeReferenceFields(
       continue;
     }
 
-    // Single non-system target → data dependency (pull in those records)
-    if (nonSystemTargets.length === 1) {
+    // Single target → data dependency (pull in those records)
+    if (refs.length === 1) {
       dependencyFields.set(f.name, nonSystemTargets[0]);
       continue;
     }
 
-    // Polymorphic with multiple non-system targets — too complex, strip to be safe
-    systemFields.add(f.name);
+    // Polymorphic — each value's object is resolved from its ID key prefix
+    polymorphicFields.set(f.name, nonSystemTargets);
   }
 
-  return { systemFields, selfRefFields, dependencyFields };
+  return { systemFields, selfRefFields, dependencyFields, polymorphicFields };
 }
 
 // ---------------------------------------------------------------------------
-// Seed dependency objects — pull in records referenced by core object lookups
+// Seed dependency objects — pull in lookup targets, and their lookup targets
 // ---------------------------------------------------------------------------
 
+interface DependencyNode {
+  objectApiName: string;
+  sourceFields: FieldInfo[];
+  insertableFields: string[];
+  picklistFields: FieldInfo[];
+  refs: RefFieldCategories;
+  records: Map<string, Record<string, unknown>>;
+}
+
+// Polymorphic values are only followed when the run opts in, and only to the
+// non-system objects the field can actually point at
+function collectReferencedIds(
+  config: SeedConfig,
+  records: Iterable<Record<string, unknown>>,
+  refs: Pick<RefFieldCategories, 'dependencyFields' | 'polymorphicFields'>,
+  into: Map<string, Set<string>>
+): void {
+  const add = (targetObject: string, id: string): void => {
+    if (!into.has(targetObject)) into.set(targetObject, new Set());
+    into.get(targetObject)!.add(id);
+  };
+  const { keyPrefixes } = config;
+  const followPolymorphic = config.pullPolymorphicDependencies && keyPrefixes;
+
+  for (const rec of records) {
+    for (const [fieldName, targetObject] of refs.dependencyFields) {
+      const val = rec[fieldName] as string | null;
+      if (val) add(targetObject, val);
+    }
+    if (!followPolymorphic) continue;
+    for (const [fieldName, targets] of refs.polymorphicFields) {
+      const val = rec[fieldName] as string | null;
+      const targetObject = val ? objectForId(keyPrefixes, val) : null;
+      if (val && targetObject && targets.includes(targetObject)) add(targetObject, val);
+    }
+  }
+}
+
+async function describeDependency(config: SeedConfig, objectApiName: string): Promise<DependencyNode | null> {
+  const { sourceConn, targetConn, logger } = config;
+
+  // Check if the object is createable in the target
+  const targetFields = await getObjectFields(targetConn, objectApiName);
+  if (!targetFields.some((f) => f.createable)) {
+    logger.stopSpinner(`${objectApiName}: not createable in target — stripping lookups`);
+    return null;
+  }
+
+  // Get insertable fields (intersected with target)
+  const sourceFields = await getObjectFields(sourceConn, objectApiName);
+  const targetCreateable = new Set(targetFields.filter((f) => f.createable).map((f) => f.name));
+  const insertableFields = getInsertableFieldNames(sourceFields).filter((f) => targetCreateable.has(f));
+  if (insertableFields.length === 0) {
+    logger.stopSpinner(`${objectApiName}: no insertable fields — skipping`);
+    return null;
+  }
+
+  const depPicklistFields = picklistFields(targetFields, insertableFields);
+  await loadPicklistValues(config, objectApiName, depPicklistFields);
+
+  return {
+    objectApiName,
+    sourceFields,
+    insertableFields,
+    picklistFields: depPicklistFields,
+    refs: categorizeReferenceFields(
+      sourceFields.filter((f) => insertableFields.includes(f.name)),
+      objectApiName
+    ),
+    records: new Map(),
+  };
+}
+
+// Discovers the dependency graph level by level (up to config.dependencyDepth),
+// inserts it bottom-up in topological order, and collects the lookups that had
+// to be left blank — cycles, self-references and references back to the core
+// object — into `deferredLookups` so the caller can set them once the core
+// records exist.
 async function seedDependencyObjects(
   config: SeedConfig,
   sourceRecords: Array<Record<string, unknown>>,
-  dependencyFields: Map<string, string>,
+  coreRefs: RefFieldCategories,
   idMaps: IdMapCollection,
-  errors: SeedError[]
+  errors: SeedError[],
+  deferredLookups: DeferredLookup[]
 ): Promise<void> {
-  const { sourceConn, targetConn, logger, dryRun } = config;
+  const { sourceConn, targetConn, coreObject, logger, dryRun, keyPrefixes } = config;
+  const { dependencyFields } = coreRefs;
+  const coreObjectApiName = coreObject.objectApiName;
+  const maxDepth = config.dependencyDepth ?? DEFAULT_DEPENDENCY_DEPTH;
 
-  // Collect unique referenced IDs per target object
-  const idsByObject = new Map<string, Set<string>>();
-  const fieldToObject = new Map<string, string>();
+  const nodes = new Map<string, DependencyNode>();
+  const unavailable = new Set<string>();
 
-  for (const [fieldName, targetObject] of dependencyFields) {
-    fieldToObject.set(fieldName, targetObject);
-    if (!idsByObject.has(targetObject)) {
-      idsByObject.set(targetObject, new Set());
-    }
-    for (const rec of sourceRecords) {
-      const val = rec[fieldName] as string | null;
-      if (val) {
-        idsByObject.get(targetObject)!.add(val);
-      }
-    }
-  }
+  // Level 1 is whatever the core records reference directly
+  let pending = new Map<string, Set<string>>();
+  collectReferencedIds(config, sourceRecords, coreRefs, pending);
 
-  for (const [depObjectName, sourceIds] of idsByObject) {
-    if (sourceIds.size === 0) continue;
-    if (idMaps[depObjectName]) continue; // Already seeded
+  for (let depth = 1; depth <= maxDepth && pending.size > 0; depth++) {
+    const next = new Map<string, Set<string>>();
 
-    logger.startSpinner(`Pulling in ${sourceIds.size} referenced ${depObjectName} record(s)...`);
+    for (const [depObjectName, referencedIds] of pending) {
+      if (depObjectName === coreObjectApiName || unavailable.has(depObjectName)) continue;
 
-    try {
-      // Check if the object is createable in the target
-      const depTargetFields = await getObjectFields(targetConn, depObjectName);
-      const depTargetCreateable = depTargetFields.some((f) => f.createable);
-      if (!depTargetCreateable) {
-        logger.stopSpinner(`${depObjectName}: not createable in target — stripping lookups`);
-        // Move these fields to "system" category by removing from dependencyFields
-        for (const [fieldName, obj] of dependencyFields) {
-          if (obj === depObjectName) dependencyFields.delete(fieldName);
-        }
-        continue;
-      }
+      const existingMap = idMaps[depObjectName];
+      let node = nodes.get(depObjectName);
+      const sourceIds = [...referencedIds].filter((id) => !existingMap?.has(id) && !node?.records.has(id));
+      if (sourceIds.length === 0) continue; // Already seeded or already queued
 
-      // Get insertable fields (intersected with target)
-      const depSourceFields = await getObjectFields(sourceConn, depObjectName);
-      const depSourceInsertable = getInsertableFieldNames(depSourceFields);
-      const depTargetCreateableNames = new Set(depTargetFields.filter((f) => f.createable).map((f) => f.name));
-      const depInsertableFields = depSourceInsertable.filter((f) => depTargetCreateableNames.has(f));
+      logger.startSpinner(`Resolving ${sourceIds.length} referenced ${depObjectName} record(s) (level ${depth})...`);
 
-      if (depInsertableFields.length === 0) {
-        logger.stopSpinner(`${depObjectName}: no insertable fields — skipping`);
-        for (const [fieldName, obj] of dependencyFields) {
-          if (obj === depObjectName) dependencyFields.delete(fieldName);
+      try {
+        if (!node) {
+          const described = await describeDependency(config, depObjectName);
+          if (!described) {
+            unavailable.add(depObjectName);
+            continue;
+          }
+          node = described;
+          nodes.set(depObjectName, node);
         }
-        continue;
+
+        const selectFields = buildSelectFields(node.insertableFields);
+        const depRecords = await queryAllChunked(
+          sourceConn,
+          sourceIds,
+          (chunk) => `SELECT ${selectFields} FROM ${depObjectName} WHERE Id IN (${inClause(chunk)})`
+        );
+        for (const rec of depRecords) node.records.set(rec['Id'] as string, rec);
+
+        // This object's own lookup targets (and self-referenced parents) form the next level
+        const selfRefs = new Map([...node.refs.selfRefFields].map((f): [string, string] => [f, depObjectName]));
+        collectReferencedIds(config, depRecords, node.refs, next);
+        collectReferencedIds(config, depRecords, { dependencyFields: selfRefs, polymorphicFields: new Map() }, next);
+
+        logger.stopSpinner(`${depObjectName}: ${depRecords.length} record(s) to pull in`);
+      } catch (err) {
+        logger.stopSpinnerFail(`${depObjectName}: failed to resolve — ${err instanceof Error ? err.message : String(err)}`);
+        unavailable.add(depObjectName);
+        nodes.delete(depObjectName);
       }
+    }
 
-      const depSelectFields = buildSelectFields(depInsertableFields);
-      const idsArray = [...sourceIds];
+    pending = next;
+  }
 
-      // Query the specific referenced records by ID
-      const depRecords = await queryAllChunked(
-        sourceConn,
-        idsArray,
-        (chunk) => `SELECT ${depSelectFields} FROM ${depObjectName} WHERE Id IN (${inClause(chunk)})`
-      );
+  if ([...pending.keys()].some((obj) => obj !== coreObjectApiName && !unavailable.has(obj))) {
+    logger.warn(`Dependency depth limit (${maxDepth}) reached — lookups beyond it are left blank`);
+  }
 
-      if (depRecords.length === 0) {
-        logger.stopSpinner(`${depObjectName}: no records found`);
-        continue;
+  // Remove unresolvable objects from the core's dependency fields so those lookups are stripped
+  for (const [fieldName, obj] of dependencyFields) {
+    if (unavailable.has(obj)) dependencyFields.delete(fieldName);
+  }
+
+  // Order bottom-up; cycles are broken by deferring one side's lookups
+  const edges: DependencyEdge[] = [];
+  for (const node of nodes.values()) {
+    for (const [field, toObject] of node.refs.dependencyFields) {
+      if (!nodes.has(toObject)) continue;
+      const nillable = node.sourceFields.find((f) => f.name === field)?.nillable ?? true;
+      edges.push({ fromObject: node.objectApiName, toObject, field, nillable });
+    }
+    for (const [field, targets] of node.refs.polymorphicFields) {
+      const nillable = node.sourceFields.find((f) => f.name === field)?.nillable ?? true;
+      for (const toObject of targets.filter((t) => nodes.has(t))) {
+        edges.push({ fromObject: node.objectApiName, toObject, field, nillable });
       }
+    }
+  }
+  const { order, deferred } = orderDependencies([...nodes.keys()], edges);
 
-      // Strip all reference fields on dependency records (no cascading)
-      const depRefFieldNames = new Set(
-        depSourceFields
-          .filter((f) => f.createable && f.referenceTo.length > 0 && f.type === 'reference')
-          .map((f) => f.name)
-      );
+  const deferredFieldsByObject = new Map<string, Set<string>>();
+  for (const edge of deferred) {
+    logger.warn(`Dependency cycle — ${describeDeferred(edge)} will be set after insert`);
+    if (!deferredFieldsByObject.has(edge.fromObject)) deferredFieldsByObject.set(edge.fromObject, new Set());
+    deferredFieldsByObject.get(edge.fromObject)!.add(edge.field);
+  }
 
-      const depIdMap: IdMap = new Map();
+  for (const depObjectName of order) {
+    const node = nodes.get(depObjectName)!;
+    if (node.records.size === 0) continue;
+
+    // Lookups that cannot be set at insert time: cycles, self-references, and the core object
+    const deferredFields = new Set([...node.refs.selfRefFields, ...(deferredFieldsByObject.get(depObjectName) ?? [])]);
+    for (const [fieldName, obj] of node.refs.dependencyFields) {
+      if (obj === coreObjectApiName) deferredFields.add(fieldName);
+    }
+
+    logger.startSpinner(`Pulling in ${node.records.size} referenced ${depObjectName} record(s)...`);
+
+    try {
+      const depIdMap: IdMap = idMaps[depObjectName] ?? new Map();
       idMaps[depObjectName] = depIdMap;
 
       const depPrepared: Array<Record<string, unknown>> = [];
       const depPreparedSourceIds: string[] = [];
+      const userFields = userLookupFields(node.sourceFields, node.insertableFields);
+      const groupFields = groupLookupFields(node.sourceFields, node.insertableFields);
 
-      for (const rec of depRecords) {
+      for (const rec of node.records.values()) {
+        const sourceId = rec['Id'] as string;
         const p: Record<string, unknown> = {};
-        for (const fname of depInsertableFields) {
-          if (rec[fname] === undefined) continue;
-          // Strip all lookup fields on dependency objects (one level only, no cascade)
-          if (depRefFieldNames.has(fname) && rec[fname] !== null) continue;
-          p[fname] = rec[fname];
+
+        for (const fname of node.insertableFields) {
+          const value = rec[fname];
+          if (value === undefined) continue;
+
+          if (value !== null && node.refs.systemFields.has(fname)) continue;
+
+          if (value !== null && deferredFields.has(fname)) {
+            deferredLookups.push({ objectApiName: depObjectName, sourceId, field: fname, referencedSourceId: value as string });
+            continue;
+          }
+
+          // A polymorphic value pointing back at the core object waits for the core insert
+          const polymorphic = node.refs.polymorphicFields.has(fname);
+          const pointsAtCore =
+            value !== null && polymorphic && keyPrefixes && objectForId(keyPrefixes, value as string) === coreObjectApiName;
+          if (pointsAtCore) {
+            deferredLookups.push({ objectApiName: depObjectName, sourceId, field: fname, referencedSourceId: value as string });
+            continue;
+          }
+
+          if (value !== null && (polymorphic || node.refs.dependencyFields.has(fname))) {
+            // Lower levels are already inserted — remap, or blank out if the target was not pulled in
+            noteLookup(p, fname, value as string);
+            const targetId = polymorphic
+              ? findByKeyPrefix(keyPrefixes, idMaps, value as string)
+              : findInAnyIdMap(idMaps, value as string);
+            if (targetId) {
+              p[fname] = targetId;
+            } else if (node.sourceFields.find((f) => f.name === fname)?.nillable) {
+              p[fname] = null;
+            }
+            continue;
+          }
+
+          p[fname] = value;
         }
+
+        if (!applyRecordType(config, depObjectName, rec, p, errors)) continue;
+        if (!applyPicklistValues(config, depObjectName, node.picklistFields, rec, p, errors)) continue;
+        applyUserLookups(config, userFields, rec, p);
+        applyGroupLookups(config, depObjectName, groupFields, rec, p);
+        maskPrepared(config, depObjectName, p);
         depPrepared.push(p);
-        depPreparedSourceIds.push(rec['Id'] as string);
+        depPreparedSourceIds.push(sourceId);
       }
 
       const result = await batchInsert(
         targetConn, depObjectName, depPrepared, depPreparedSourceIds,
-        depIdMap, errors, logger, dryRun
+        depIdMap, errors, logger, dryRun, config
       );
 
       logger.stopSpinner(`${depObjectName}: ${result.inserted} pulled in, ${result.failed} failed`);
@@ -461,96 +888,296 @@ async function seedDependencyObjects(
 }
 
 // ---------------------------------------------------------------------------
-// Step 1: Seed core object
+// applyDeferredLookups — set lookups left blank at insert time
 // ---------------------------------------------------------------------------
 
-async function seedCoreObject(
+async function applyDeferredLookups(
   config: SeedConfig,
+  lookups: DeferredLookup[],
   idMaps: IdMapCollection,
   errors: SeedError[]
-): Promise<ObjectSeedResult> {
-  const { sourceConn, targetConn, coreObject, logger, dryRun } = config;
-  const objectApiName = coreObject.objectApiName;
-
-  logger.startSpinner(`Querying ${objectApiName} from source...`);
-
-  const sourceFields = await getObjectFields(sourceConn, objectApiName);
-  const sourceInsertable = getInsertableFieldNames(sourceFields);
-
-  // Intersect with target's createable fields to avoid schema mismatches
-  const targetFields = await getObjectFields(targetConn, objectApiName);
-  const targetCreateable = new Set(targetFields.filter((f) => f.createable).map((f) => f.name));
-  const insertableFields = sourceInsertable.filter((f) => targetCreateable.has(f));
+): Promise<void> {
+  if (lookups.length === 0) return;
+  const { targetConn, logger, dryRun } = config;
 
-  const selectFields = buildSelectFields(insertableFields);
-  const soql = buildSeedQuery(selectFields, objectApiName, config.whereClause, config.recordCount);
+  if (dryRun) {
+    logger.log(`  [DRY RUN] Would set ${lookups.length} deferred dependency lookup(s) after insert`);
+    return;
+  }
 
-  const sourceRecords = await queryAll(sourceConn, soql);
-  logger.updateSpinner(`Found ${sourceRecords.length} ${objectApiName} records`);
+  // One update per record, carrying every deferred field it has
+  const updatesByObject = new Map<string, Map<string, Record<string, unknown>>>();
+  const sourceIdByTargetId = new Map<string, string>();
+  const seen = new Set<string>();
+  let unresolved = 0;
+
+  for (const lookup of lookups) {
+    // A resumed run re-collects lookups of records it prepares again
+    const key = `${lookup.objectApiName}:${lookup.sourceId}:${lookup.field}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const targetId = idMaps[lookup.objectApiName]?.get(lookup.sourceId);
+    const refTargetId = findInAnyIdMap(idMaps, lookup.referencedSourceId);
+    if (!targetId || !refTargetId) {
+      unresolved++;
+      continue;
+    }
 
-  if (sourceRecords.length === 0) {
-    logger.stopSpinner('No records found');
-    return { objectApiName, queried: 0, inserted: 0, updated: 0, failed: 0, skipped: 0 };
+    if (!updatesByObject.has(lookup.objectApiName)) updatesByObject.set(lookup.objectApiName, new Map());
+    const updates = updatesByObject.get(lookup.objectApiName)!;
+    const updateRec = updates.get(targetId) ?? { Id: targetId };
+    updateRec[lookup.field] = refTargetId;
+    updates.set(targetId, updateRec);
+    sourceIdByTargetId.set(targetId, lookup.sourceId);
   }
 
-  // Categorize reference fields: system (strip), self-ref (defer), data dependency (pull in)
-  const { systemFields, selfRefFields, dependencyFields } = categorizeReferenceFields(
-    sourceFields.filter((f) => insertableFields.includes(f.name) || selfRefFieldCheck(f, objectApiName)),
-    objectApiName
-  );
+  for (const [objectApiName, updateMap] of updatesByObject) {
+    const updates = [...updateMap.values()];
+    logger.startSpinner(`Updating ${updates.length} deferred ${objectApiName} lookup(s)...`);
 
-  // Pull in dependency records (e.g., custom lookup targets)
-  if (dependencyFields.size > 0) {
-    logger.stopSpinner(`Found ${dependencyFields.size} data dependency lookup(s) to resolve`);
-    await seedDependencyObjects(config, sourceRecords, dependencyFields, idMaps, errors);
-  }
+    let failed = 0;
 
-  // Also pull in self-referenced records not in the current batch
-  const selfRefSourceIds = new Set(sourceRecords.map((r) => r['Id'] as string));
-  const extraParentIds = new Set<string>();
+    for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+      const batch = updates.slice(i, i + BATCH_SIZE);
+      const sourceIdOf = (rec: Record<string, unknown>): string | undefined => sourceIdByTargetId.get(rec['Id'] as string);
 
-  for (const fieldName of selfRefFields) {
-    for (const rec of sourceRecords) {
-      const val = rec[fieldName] as string | null;
-      if (val && !selfRefSourceIds.has(val)) {
-        extraParentIds.add(val);
+      // A failed request loses only its own batch — the lookups stay blank and are reported per record
+      let resultArray: InsertResult[];
+      try {
+        const updateResults = await targetConn.sobject(objectApiName).update(batch as Array<Record<string, unknown> & { Id: string }>);
+        resultArray = (Array.isArray(updateResults) ? updateResults : [updateResults]) as InsertResult[];
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        for (const rec of batch) errors.push({ object: objectApiName, sourceId: sourceIdOf(rec), stage: 'deferred update', error });
+        failed += batch.length;
+        continue;
+      }
+
+      for (let j = 0; j < resultArray.length; j++) {
+        const r = resultArray[j];
+        if (!r.success) {
+          errors.push({
+            object: objectApiName,
+            sourceId: sourceIdOf(batch[j]),
+            stage: 'deferred update',
+            error: formatErrors(r.errors),
+          });
+          failed++;
+        }
       }
     }
-  }
 
-  // Query and prepend extra parent records so they're inserted first
-  let allRecordsToInsert = [...sourceRecords];
-  if (extraParentIds.size > 0) {
-    logger.startSpinner(`Pulling in ${extraParentIds.size} parent ${objectApiName} record(s)...`);
-    const extraParents = await queryAllChunked(
-      sourceConn,
-      [...extraParentIds],
-      (chunk) => `SELECT ${selectFields} FROM ${objectApiName} WHERE Id IN (${inClause(chunk)})`
+    logger.stopSpinner(
+      `Updated ${updates.length - failed} deferred ${objectApiName} lookup(s)${failed > 0 ? `, ${failed} failed` : ''}`
     );
-    logger.stopSpinner(`Pulled in ${extraParents.length} parent record(s)`);
-    // Parents go first so they're in the IdMap when we update self-refs
-    allRecordsToInsert = [...extraParents, ...sourceRecords];
   }
 
-  const coreIdMap: IdMap = new Map();
-  idMaps[objectApiName] = coreIdMap;
-
-  // Build set of dependency object names that were successfully seeded
-  const resolvedDependencyFields = new Set(dependencyFields.keys());
+  if (unresolved > 0) {
+    logger.warn(`${unresolved} deferred lookup(s) point at records that were not seeded — left blank`);
+  }
 
-  // Prepare core records — remap dependency lookups, strip system, defer self-refs
-  logger.startSpinner(`Inserting ${allRecordsToInsert.length} ${objectApiName} records into target...`);
+  // Nothing left pending — the list may be the run state's own
+  lookups.splice(0);
+}
 
-  const prepared: Array<Record<string, unknown>> = [];
-  const preparedSourceIds: string[] = [];
+// ---------------------------------------------------------------------------
+// updateSelfReferences — set same-object lookups once every record has an ID
+// ---------------------------------------------------------------------------
 
-  for (const rec of allRecordsToInsert) {
-    const p: Record<string, unknown> = {};
-    for (const fname of insertableFields) {
-      if (rec[fname] === undefined) continue;
+// Self-references (Account.ParentId, Contact.ReportsToId) are left blank on
+// insert because the referenced record may be in the same batch; this pass
+// sets them through the object's own IdMap afterwards.
+async function updateSelfReferences(
+  config: SeedConfig,
+  objectApiName: string,
+  sourceRecords: Array<Record<string, unknown>>,
+  selfRefFields: Set<string>,
+  idMap: IdMap,
+  leaveUnchanged: Set<string>,
+  errors: SeedError[]
+): Promise<void> {
+  const { targetConn, logger, dryRun } = config;
+  if (selfRefFields.size === 0) return;
 
-      if (systemFields.has(fname) && rec[fname] !== null) {
-        // System lookup — strip
+  if (dryRun) {
+    const selfRefCount = sourceRecords.filter((rec) =>
+      [...selfRefFields].some((f) => rec[f] !== null && rec[f] !== undefined)
+    ).length;
+    if (selfRefCount > 0) {
+      logger.log(`  [DRY RUN] Would update ${selfRefCount} ${objectApiName} self-reference(s) after insert`);
+    }
+    return;
+  }
+  if (idMap.size === 0) return;
+
+  const updates: Array<Record<string, unknown>> = [];
+  const updateSourceIds: string[] = [];
+
+  for (const rec of sourceRecords) {
+    const sourceId = rec['Id'] as string;
+    const targetId = idMap.get(sourceId);
+    if (!targetId || leaveUnchanged.has(sourceId)) continue;
+
+    const updateRec: Record<string, unknown> = { Id: targetId };
+    let hasUpdate = false;
+
+    for (const fieldName of selfRefFields) {
+      const refSourceId = rec[fieldName] as string | null;
+      if (refSourceId) {
+        const refTargetId = idMap.get(refSourceId);
+        if (refTargetId) {
+          updateRec[fieldName] = refTargetId;
+          hasUpdate = true;
+        }
+      }
+    }
+
+    if (hasUpdate) {
+      updates.push(updateRec);
+      updateSourceIds.push(sourceId);
+    }
+  }
+
+  if (updates.length === 0) return;
+
+  logger.startSpinner(`Updating ${updates.length} ${objectApiName} self-reference(s)...`);
+
+  for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+    const batch = updates.slice(i, i + BATCH_SIZE);
+    const updateResults = await targetConn.sobject(objectApiName).update(batch as Array<Record<string, unknown> & { Id: string }>);
+    const resultArray = Array.isArray(updateResults) ? updateResults : [updateResults];
+
+    for (let j = 0; j < resultArray.length; j++) {
+      const r = resultArray[j] as InsertResult;
+      if (!r.success) {
+        errors.push({
+          object: objectApiName,
+          sourceId: updateSourceIds[i + j],
+          stage: 'self-ref update',
+          error: formatErrors(r.errors),
+        });
+      }
+    }
+  }
+
+  logger.stopSpinner(`Updated ${updates.length} self-reference(s)`);
+}
+
+// ---------------------------------------------------------------------------
+// Step 1: Seed core object
+// ---------------------------------------------------------------------------
+
+async function seedCoreObject(
+  config: SeedConfig,
+  idMaps: IdMapCollection,
+  errors: SeedError[],
+  runState: RunState | null,
+  deferredLookups: DeferredLookup[] = []
+): Promise<ObjectSeedResult> {
+  const { sourceConn, targetConn, coreObject, logger, dryRun } = config;
+  const objectApiName = coreObject.objectApiName;
+
+  logger.startSpinner(`Querying ${objectApiName} from source...`);
+
+  const sourceFields = await getObjectFields(sourceConn, objectApiName);
+  const sourceInsertable = getInsertableFieldNames(sourceFields);
+
+  // Intersect with target's createable fields to avoid schema mismatches
+  const targetFields = await getObjectFields(targetConn, objectApiName);
+  const targetCreateable = new Set(targetFields.filter((f) => f.createable).map((f) => f.name));
+  const insertableFields = sourceInsertable.filter((f) => targetCreateable.has(f));
+
+  const selectFields = buildSelectFields(insertableFields);
+
+  // On resume, re-query exactly the records selected by the original run —
+  // the LIMIT query has no stable ordering and could pick different rows
+  let sourceRecords: Array<Record<string, unknown>>;
+  if (runState?.coreSourceIds) {
+    sourceRecords = await queryAllChunked(
+      sourceConn,
+      runState.coreSourceIds,
+      (chunk) => `SELECT ${selectFields} FROM ${objectApiName} WHERE Id IN (${inClause(chunk)})`
+    );
+  } else {
+    const soql = buildSeedQuery(selectFields, objectApiName, config.whereClause, config.recordCount);
+    sourceRecords = await queryAll(sourceConn, soql);
+    if (runState) runState.coreSourceIds = sourceRecords.map((r) => r['Id'] as string);
+  }
+  logger.updateSpinner(`Found ${sourceRecords.length} ${objectApiName} records`);
+
+  if (sourceRecords.length === 0) {
+    logger.stopSpinner('No records found');
+    return { objectApiName, queried: 0, inserted: 0, updated: 0, failed: 0, skipped: 0 };
+  }
+
+  // Categorize reference fields: system (strip), self-ref (defer), data dependency (pull in)
+  const coreRefs = categorizeReferenceFields(
+    sourceFields.filter((f) => insertableFields.includes(f.name) || selfRefFieldCheck(f, objectApiName)),
+    objectApiName
+  );
+  const { systemFields, selfRefFields, dependencyFields, polymorphicFields } = coreRefs;
+
+  // Pull in dependency records (e.g., custom lookup targets) and their own dependencies
+  const followPolymorphic = config.pullPolymorphicDependencies && polymorphicFields.size > 0;
+  if (dependencyFields.size > 0 || followPolymorphic) {
+    logger.stopSpinner(
+      `Found ${dependencyFields.size + (followPolymorphic ? polymorphicFields.size : 0)} data dependency lookup(s) to resolve`
+    );
+    await seedDependencyObjects(config, sourceRecords, coreRefs, idMaps, errors, deferredLookups);
+  }
+
+  // Also pull in self-referenced records not in the current batch
+  const selfRefSourceIds = new Set(sourceRecords.map((r) => r['Id'] as string));
+  const extraParentIds = new Set<string>();
+
+  for (const fieldName of selfRefFields) {
+    for (const rec of sourceRecords) {
+      const val = rec[fieldName] as string | null;
+      if (val && !selfRefSourceIds.has(val)) {
+        extraParentIds.add(val);
+      }
+    }
+  }
+
+  // Query and prepend extra parent records so they're inserted first
+  let allRecordsToInsert = [...sourceRecords];
+  if (extraParentIds.size > 0) {
+    logger.startSpinner(`Pulling in ${extraParentIds.size} parent ${objectApiName} record(s)...`);
+    const extraParents = await queryAllChunked(
+      sourceConn,
+      [...extraParentIds],
+      (chunk) => `SELECT ${selectFields} FROM ${objectApiName} WHERE Id IN (${inClause(chunk)})`
+    );
+    logger.stopSpinner(`Pulled in ${extraParents.length} parent record(s)`);
+    // Parents go first so they're in the IdMap when we update self-refs
+    allRecordsToInsert = [...extraParents, ...sourceRecords];
+  }
+
+  const coreIdMap: IdMap = idMaps[objectApiName] ?? new Map();
+  idMaps[objectApiName] = coreIdMap;
+
+  // Build set of dependency object names that were successfully seeded
+  const resolvedDependencyFields = new Set(dependencyFields.keys());
+
+  // Prepare core records — remap dependency lookups, strip system, defer self-refs
+  logger.startSpinner(`Inserting ${allRecordsToInsert.length} ${objectApiName} records into target...`);
+
+  const prepared: Array<Record<string, unknown>> = [];
+  const preparedSourceIds: string[] = [];
+  const userFields = userLookupFields(sourceFields, insertableFields);
+  const groupFields = groupLookupFields(sourceFields, insertableFields);
+  const corePicklistFields = picklistFields(targetFields, insertableFields);
+  await loadPicklistValues(config, objectApiName, corePicklistFields);
+  let skipped = 0;
+
+  for (const rec of allRecordsToInsert) {
+    const p: Record<string, unknown> = {};
+    for (const fname of insertableFields) {
+      if (rec[fname] === undefined) continue;
+
+      if (systemFields.has(fname) && rec[fname] !== null) {
+        // System lookup — strip
         continue;
       }
 
@@ -562,6 +1189,7 @@ async function seedCoreObject(
       if (resolvedDependencyFields.has(fname) && rec[fname] !== null) {
         // Data dependency — remap using IdMap
         const sourceId = rec[fname] as string;
+        noteLookup(p, fname, sourceId);
         const targetId = findInAnyIdMap(idMaps, sourceId);
         if (targetId) {
           p[fname] = targetId;
@@ -576,100 +1204,87 @@ async function seedCoreObject(
         continue;
       }
 
+      if (polymorphicFields.has(fname) && rec[fname] !== null) {
+        // Polymorphic — remap through the IdMap of the object named by the key prefix
+        noteLookup(p, fname, rec[fname] as string);
+        const targetId = findByKeyPrefix(config.keyPrefixes, idMaps, rec[fname] as string);
+        if (targetId) {
+          p[fname] = targetId;
+        } else if (sourceFields.find((f) => f.name === fname)?.nillable) {
+          p[fname] = null;
+        }
+        continue;
+      }
+
       p[fname] = rec[fname];
     }
+    if (
+      !applyRecordType(config, objectApiName, rec, p, errors) ||
+      !applyPicklistValues(config, objectApiName, corePicklistFields, rec, p, errors)
+    ) {
+      skipped++;
+      continue;
+    }
+    applyUserLookups(config, userFields, rec, p);
+    applyGroupLookups(config, objectApiName, groupFields, rec, p);
+    maskPrepared(config, objectApiName, p);
     prepared.push(p);
     preparedSourceIds.push(rec['Id'] as string);
   }
 
   let inserted = 0;
   let updated = 0;
+  let matched: number | undefined;
   let failed = 0;
+  // Matched records are left as they are unless the match key asks for updates
+  const leaveUnchanged = new Set<string>();
 
   if (coreObject.externalIdField) {
     const result = await batchUpsert(
       targetConn, objectApiName, prepared, preparedSourceIds,
-      coreObject.externalIdField, coreIdMap, errors, logger, dryRun
+      coreObject.externalIdField, coreIdMap, errors, logger, dryRun, config
+    );
+    inserted = result.inserted;
+    updated = result.updated;
+    failed = result.failed;
+  } else if (coreObject.matchKey) {
+    const matchFields = resolveMatchFields(objectApiName, coreObject.matchKey, targetFields, insertableFields);
+    const result = await batchMatch(
+      targetConn, objectApiName, prepared, preparedSourceIds,
+      matchFields, coreObject.matchKey.updateMatched, coreIdMap, errors, logger, dryRun, config
     );
     inserted = result.inserted;
     updated = result.updated;
+    matched = result.matched;
     failed = result.failed;
+    if (!coreObject.matchKey.updateMatched) result.matchedSourceIds.forEach((id) => leaveUnchanged.add(id));
   } else {
     const result = await batchInsert(
       targetConn, objectApiName, prepared, preparedSourceIds,
-      coreIdMap, errors, logger, dryRun
+      coreIdMap, errors, logger, dryRun, config
     );
     inserted = result.inserted;
     failed = result.failed;
   }
 
-  logger.stopSpinner(`${objectApiName}: ${inserted} inserted, ${updated} updated, ${failed} failed`);
+  logger.stopSpinner(
+    `${objectApiName}: ${inserted} inserted, ${updated} updated${matched !== undefined ? `, ${matched} matched` : ''}, ${failed} failed${skipped > 0 ? `, ${skipped} skipped` : ''}`
+  );
 
   // Post-insert: update self-reference fields using the IdMap
-  if (selfRefFields.size > 0 && coreIdMap.size > 0 && !dryRun) {
-    const updates: Array<Record<string, unknown>> = [];
-
-    for (const rec of allRecordsToInsert) {
-      const sourceId = rec['Id'] as string;
-      const targetId = coreIdMap.get(sourceId);
-      if (!targetId) continue;
-
-      const updateRec: Record<string, unknown> = { Id: targetId };
-      let hasUpdate = false;
-
-      for (const fieldName of selfRefFields) {
-        const refSourceId = rec[fieldName] as string | null;
-        if (refSourceId) {
-          const refTargetId = coreIdMap.get(refSourceId);
-          if (refTargetId) {
-            updateRec[fieldName] = refTargetId;
-            hasUpdate = true;
-          }
-        }
-      }
-
-      if (hasUpdate) {
-        updates.push(updateRec);
-      }
-    }
-
-    if (updates.length > 0) {
-      logger.startSpinner(`Updating ${updates.length} ${objectApiName} self-reference(s)...`);
+  await updateSelfReferences(config, objectApiName, allRecordsToInsert, selfRefFields, coreIdMap, leaveUnchanged, errors);
 
-      for (let i = 0; i < updates.length; i += BATCH_SIZE) {
-        const batch = updates.slice(i, i + BATCH_SIZE);
-        const updateResults = await targetConn.sobject(objectApiName).update(batch as Array<Record<string, unknown> & { Id: string }>);
-        const resultArray = Array.isArray(updateResults) ? updateResults : [updateResults];
-
-        for (const r of resultArray as InsertResult[]) {
-          if (!r.success) {
-            errors.push({
-              object: objectApiName,
-              stage: 'self-ref update',
-              error: formatErrors(r.errors),
-            });
-          }
-        }
-      }
-
-      logger.stopSpinner(`Updated ${updates.length} self-reference(s)`);
-    }
-  } else if (selfRefFields.size > 0 && dryRun) {
-    const selfRefCount = allRecordsToInsert.filter((rec) =>
-      [...selfRefFields].some((f) => rec[f] !== null && rec[f] !== undefined)
-    ).length;
-    if (selfRefCount > 0) {
-      logger.log(`  [DRY RUN] Would update ${selfRefCount} self-reference(s) after insert`);
-    }
-  }
+  // Dependency lookups deferred by cycles or pointing back at the core object
+  await applyDeferredLookups(config, deferredLookups, idMaps, errors);
 
   return {
     objectApiName,
     queried: sourceRecords.length,
     inserted,
     updated,
+    matched,
     failed,
-    skipped: 0,
+    skipped,
   };
 }
 
@@ -679,7 +1294,7 @@ function selfRefFieldCheck(f: FieldInfo, objectApiName: string): boolean {
 }
 
 // ---------------------------------------------------------------------------
-// Step 2 & 3: Seed child / grandchild objects
+// Step 2: Seed related objects (any depth)
 // ---------------------------------------------------------------------------
 
 async function seedRelatedObject(
@@ -689,7 +1304,11 @@ async function seedRelatedObject(
   parentSourceIds: string[],
   idMaps: IdMapCollection,
   errors: SeedError[],
-  externalIdField?: string
+  externalIdField?: string,
+  whereClause?: string,
+  matchKey?: MatchKeyConfig,
+  deferredFields: Set<string> = new Set(),
+  deferredLookups: DeferredLookup[] = []
 ): Promise<ObjectSeedResult> {
   const { sourceConn, targetConn, logger, dryRun } = config;
 
@@ -714,12 +1333,13 @@ async function seedRelatedObject(
     (f) => f.createable && f.referenceTo.length > 0 && f.type === 'reference'
   );
 
-  // Query children WHERE lookup IN (parent source IDs)
+  // Query children WHERE lookup IN (parent source IDs), narrowed by the optional filter
+  const filter = whereClause ? ` AND (${whereClause})` : '';
   const sourceRecords = await queryAllChunked(
     sourceConn,
     parentSourceIds,
     (chunk) =>
-      `${buildSeedQuery(selectFields, objectApiName)} WHERE ${lookupField} IN (${inClause(chunk)})`
+      `${buildSeedQuery(selectFields, objectApiName)} WHERE ${lookupField} IN (${inClause(chunk)})${filter}`
   );
 
   logger.updateSpinner(`Found ${sourceRecords.length} ${objectApiName} records`);
@@ -738,13 +1358,64 @@ async function seedRelatedObject(
   }
   const targetIdMap = idMaps[objectApiName];
 
+  // Self-references (other than the lookup to the parent) are left off the
+  // insert and set afterwards, like on the core object
+  const selfRefFields = new Set(
+    sourceFields
+      .filter((f) => f.name !== lookupField && insertableFields.includes(f.name) && selfRefFieldCheck(f, objectApiName))
+      .map((f) => f.name)
+  );
+  // Lookups to siblings seeded later (dependency cycles) wait for applyDeferredLookups
+  const insertFields = insertableFields.filter((f) => !selfRefFields.has(f) && !deferredFields.has(f));
+
+  // Optionally pull in referenced siblings that are outside the queried set
+  let allRecordsToInsert = sourceRecords;
+  if (config.pullSelfReferences && selfRefFields.size > 0) {
+    const queriedIds = new Set(sourceRecords.map((r) => r['Id'] as string));
+    const extraSiblingIds = new Set<string>();
+    for (const fieldName of selfRefFields) {
+      for (const rec of sourceRecords) {
+        const val = rec[fieldName] as string | null;
+        if (val && !queriedIds.has(val) && !targetIdMap.has(val)) extraSiblingIds.add(val);
+      }
+    }
+
+    if (extraSiblingIds.size > 0) {
+      logger.updateSpinner(`Pulling in ${extraSiblingIds.size} referenced ${objectApiName} record(s)...`);
+      const extraSiblings = await queryAllChunked(
+        sourceConn,
+        [...extraSiblingIds],
+        (chunk) => `SELECT ${selectFields} FROM ${objectApiName} WHERE Id IN (${inClause(chunk)})`
+      );
+      allRecordsToInsert = [...extraSiblings, ...sourceRecords];
+    }
+  }
+
   const prepared: Array<Record<string, unknown>> = [];
   const preparedSourceIds: string[] = [];
+  const userFields = userLookupFields(sourceFields, insertableFields);
+  const groupFields = groupLookupFields(sourceFields, insertableFields);
+  const relatedPicklistFields = picklistFields(targetFields, insertableFields);
+  await loadPicklistValues(config, objectApiName, relatedPicklistFields);
   let skipped = 0;
 
-  for (const rec of sourceRecords) {
-    const p = prepareRecord(rec, insertableFields, lookupFields, allReferenceFields, idMaps, errors, objectApiName);
-    if (p) {
+  for (const rec of allRecordsToInsert) {
+    for (const field of deferredFields) {
+      const value = rec[field] as string | null | undefined;
+      if (value) deferredLookups.push({ objectApiName, sourceId: rec['Id'] as string, field, referencedSourceId: value });
+    }
+
+    const p = prepareRecord(
+      rec, insertFields, lookupFields, allReferenceFields, idMaps, errors, objectApiName, config.keyPrefixes
+    );
+    if (
+      p &&
+      applyRecordType(config, objectApiName, rec, p, errors) &&
+      applyPicklistValues(config, objectApiName, relatedPicklistFields, rec, p, errors)
+    ) {
+      applyUserLookups(config, userFields, rec, p);
+      applyGroupLookups(config, objectApiName, groupFields, rec, p);
+      maskPrepared(config, objectApiName, p);
       prepared.push(p);
       preparedSourceIds.push(rec['Id'] as string);
     } else {
@@ -753,7 +1424,7 @@ async function seedRelatedObject(
   }
 
   if (prepared.length === 0) {
-    logger.stopSpinner(`${objectApiName}: all ${sourceRecords.length} records skipped (lookup remap failures)`);
+    logger.stopSpinner(`${objectApiName}: all ${allRecordsToInsert.length} records skipped (lookup remap failures)`);
     return { objectApiName, queried: sourceRecords.length, inserted: 0, updated: 0, failed: 0, skipped };
   }
 
@@ -761,47 +1432,113 @@ async function seedRelatedObject(
 
   let inserted = 0;
   let updated = 0;
+  let matched: number | undefined;
   let failed = 0;
+  const leaveUnchanged = new Set<string>();
 
   if (externalIdField) {
     const result = await batchUpsert(
       targetConn, objectApiName, prepared, preparedSourceIds,
-      externalIdField, targetIdMap, errors, logger, dryRun
+      externalIdField, targetIdMap, errors, logger, dryRun, config
+    );
+    inserted = result.inserted;
+    updated = result.updated;
+    failed = result.failed;
+  } else if (matchKey) {
+    const matchFields = resolveMatchFields(objectApiName, matchKey, targetFields, insertableFields);
+    const result = await batchMatch(
+      targetConn, objectApiName, prepared, preparedSourceIds,
+      matchFields, matchKey.updateMatched, targetIdMap, errors, logger, dryRun, config
     );
     inserted = result.inserted;
     updated = result.updated;
+    matched = result.matched;
     failed = result.failed;
+    if (!matchKey.updateMatched) result.matchedSourceIds.forEach((id) => leaveUnchanged.add(id));
   } else {
     const result = await batchInsert(
       targetConn, objectApiName, prepared, preparedSourceIds,
-      targetIdMap, errors, logger, dryRun
+      targetIdMap, errors, logger, dryRun, config
     );
     inserted = result.inserted;
     failed = result.failed;
   }
 
-  logger.stopSpinner(`${objectApiName}: ${inserted} inserted, ${updated} updated, ${failed} failed, ${skipped} skipped`);
+  logger.stopSpinner(
+    `${objectApiName}: ${inserted} inserted, ${updated} updated${matched !== undefined ? `, ${matched} matched` : ''}, ${failed} failed, ${skipped} skipped`
+  );
+
+  await updateSelfReferences(config, objectApiName, allRecordsToInsert, selfRefFields, targetIdMap, leaveUnchanged, errors);
 
   return {
     objectApiName,
     queried: sourceRecords.length,
     inserted,
     updated,
+    matched,
     failed,
     skipped,
   };
 }
 
 // ---------------------------------------------------------------------------
-// Step 4 & 5: Seed Activities (Tasks / Events)
+// Step 3 & 4: Seed Activities (Tasks / Events)
 // ---------------------------------------------------------------------------
 
+// Occurrences of a recurring series are generated by the platform from the
+// series master, so only masters whose series is being seeded carry recurrence
+function isRecurrenceOccurrence(record: Record<string, unknown>, seriesIds: Set<string>): boolean {
+  return !record['IsRecurrence'] && seriesIds.has(record['RecurrenceActivityId'] as string);
+}
+
+// Recurrence settings anywhere but on a series master would start a new series
+function stripRecurrenceFields(prepared: Record<string, unknown>): void {
+  for (const fieldName of Object.keys(prepared)) {
+    if (fieldName === 'IsRecurrence' || fieldName.startsWith('Recurrence')) delete prepared[fieldName];
+  }
+}
+
+// Links the occurrences the target generated for each recreated series to the
+// source occurrences by date, so files, relations and feed posts on them remap
+async function linkRecurrenceOccurrences(
+  conn: Connection,
+  activityType: 'Task' | 'Event',
+  occurrences: Array<Record<string, unknown>>,
+  idMap: IdMap
+): Promise<number> {
+  const dateField = activityType === 'Event' ? 'StartDateTime' : 'ActivityDate';
+  const seriesIds = [
+    ...new Set(occurrences.map((o) => idMap.get(o['RecurrenceActivityId'] as string)).filter((id): id is string => !!id)),
+  ];
+  const generated = await queryAllChunked(
+    conn,
+    seriesIds,
+    (chunk) =>
+      `SELECT Id, RecurrenceActivityId, ${dateField} FROM ${activityType}
+       WHERE RecurrenceActivityId IN (${inClause(chunk)}) AND IsRecurrence = false`
+  );
+  const byDate = new Map(
+    generated.map((g) => [`${g['RecurrenceActivityId'] as string}:${String(g[dateField])}`, g['Id'] as string])
+  );
+
+  let linked = 0;
+  for (const occurrence of occurrences) {
+    const seriesId = idMap.get(occurrence['RecurrenceActivityId'] as string);
+    const targetId = byDate.get(`${seriesId ?? ''}:${String(occurrence[dateField])}`);
+    if (targetId) {
+      idMap.set(occurrence['Id'] as string, targetId);
+      linked++;
+    }
+  }
+  return linked;
+}
+
 async function seedActivities(
   config: SeedConfig,
   activityType: 'Task' | 'Event',
   idMaps: IdMapCollection,
   errors: SeedError[]
-): Promise<ObjectSeedResult> {
+): Promise<ActivitySeedResult> {
   const { sourceConn, targetConn, logger, dryRun } = config;
 
   logger.startSpinner(`Querying ${activityType}s from source...`);
@@ -821,7 +1558,10 @@ async function seedActivities(
   const targetCreateable = new Set(targetFields.filter((f) => f.createable).map((f) => f.name));
   const insertableFields = sourceInsertable.filter((f) => targetCreateable.has(f));
 
-  const selectFields = buildSelectFields(insertableFields, ['WhatId', 'WhoId']);
+  // Recurrence fields only exist where recurring activities are enabled
+  const recurrenceFields = ['IsRecurrence', 'RecurrenceActivityId', activityType === 'Event' ? 'StartDateTime' : 'ActivityDate']
+    .filter((name) => sourceFields.some((f) => f.name === name));
+  const selectFields = buildSelectFields(insertableFields, ['WhatId', 'WhoId', ...recurrenceFields]);
   const allSourceIds = getAllSourceIds(idMaps);
 
   if (allSourceIds.length === 0) {
@@ -864,17 +1604,24 @@ async function seedActivities(
     return { objectApiName: activityType, queried: 0, inserted: 0, updated: 0, failed: 0, skipped: 0 };
   }
 
-  const activityIdMap: IdMap = new Map();
+  const activityIdMap: IdMap = idMaps[activityType] ?? new Map();
   idMaps[activityType] = activityIdMap;
 
   const insertableSet = new Set(insertableFields);
   const prepared: Array<Record<string, unknown>> = [];
   const preparedSourceIds: string[] = [];
+  const userFields = userLookupFields(sourceFields, insertableFields);
+  const groupFields = groupLookupFields(sourceFields, insertableFields);
+  const activityPicklistFields = picklistFields(targetFields, insertableFields);
+  await loadPicklistValues(config, activityType, activityPicklistFields);
+  const seriesIds = new Set(sourceRecords.filter((r) => r['IsRecurrence']).map((r) => r['Id'] as string));
+  const occurrences = sourceRecords.filter((r) => isRecurrenceOccurrence(r, seriesIds));
   let skipped = 0;
 
   for (const rec of sourceRecords) {
+    if (isRecurrenceOccurrence(rec, seriesIds)) continue;
+
     const p: Record<string, unknown> = {};
-    let skipRecord = false;
 
     for (const fieldName of insertableSet) {
       const value = rec[fieldName];
@@ -885,6 +1632,7 @@ async function seedActivities(
     // Remap WhatId (polymorphic)
     const whatId = rec['WhatId'] as string | null;
     if (whatId) {
+      noteLookup(p, 'WhatId', whatId);
       const targetWhatId = findInAnyIdMap(idMaps, whatId);
       if (targetWhatId) {
         p['WhatId'] = targetWhatId;
@@ -896,6 +1644,7 @@ async function seedActivities(
     // Remap WhoId (polymorphic)
     const whoId = rec['WhoId'] as string | null;
     if (whoId) {
+      noteLookup(p, 'WhoId', whoId);
       const targetWhoId = findInAnyIdMap(idMaps, whoId);
       if (targetWhoId) {
         p['WhoId'] = targetWhoId;
@@ -904,7 +1653,15 @@ async function seedActivities(
       }
     }
 
-    if (!skipRecord) {
+    if (!rec['IsRecurrence']) stripRecurrenceFields(p);
+
+    if (
+      applyRecordType(config, activityType, rec, p, errors) &&
+      applyPicklistValues(config, activityType, activityPicklistFields, rec, p, errors)
+    ) {
+      applyUserLookups(config, userFields, rec, p);
+      applyGroupLookups(config, activityType, groupFields, rec, p);
+      maskPrepared(config, activityType, p);
       prepared.push(p);
       preparedSourceIds.push(rec['Id'] as string);
     } else {
@@ -916,10 +1673,22 @@ async function seedActivities(
 
   const result = await batchInsert(
     targetConn, activityType, prepared, preparedSourceIds,
-    activityIdMap, errors, logger, dryRun
+    activityIdMap, errors, logger, dryRun, config
+  );
+
+  let occurrenceNote = '';
+  if (occurrences.length > 0 && !dryRun) {
+    const linked = await linkRecurrenceOccurrences(targetConn, activityType, occurrences, activityIdMap);
+    occurrenceNote = `, ${linked}/${occurrences.length} occurrences recreated by their series`;
+  } else if (occurrences.length > 0) {
+    occurrenceNote = `, ${occurrences.length} occurrences to be recreated by their series`;
+  }
+
+  logger.stopSpinner(
+    `${activityType}: ${result.inserted} inserted, ${result.failed} failed, ${skipped} skipped${occurrenceNote}`
   );
 
-  logger.stopSpinner(`${activityType}: ${result.inserted} inserted, ${result.failed} failed, ${skipped} skipped`);
+  const relations = await seedActivityRelations(config, activityType, sourceRecords, preparedSourceIds, idMaps, errors);
 
   return {
     objectApiName: activityType,
@@ -928,13 +1697,154 @@ async function seedActivities(
     updated: 0,
     failed: result.failed,
     skipped,
+    ...(relations ? { relations } : {}),
+  };
+}
+
+// Shared activities (several contacts on one Task or Event) and meeting
+// invitees. The platform creates the relations for WhoId and WhatId itself
+// when the activity is inserted, and copies a series master's relations to
+// its occurrences; the rest are inserted once their activity exists.
+async function seedActivityRelations(
+  config: SeedConfig,
+  activityType: 'Task' | 'Event',
+  sourceActivities: Array<Record<string, unknown>>,
+  insertedSourceIds: string[],
+  idMaps: IdMapCollection,
+  errors: SeedError[]
+): Promise<ObjectSeedResult | null> {
+  const { sourceConn, targetConn, logger, dryRun } = config;
+  const relationObject = `${activityType}Relation`;
+  const activityField = `${activityType}Id`;
+
+  if (insertedSourceIds.length === 0) return null;
+
+  let insertableFields: string[];
+  try {
+    const sourceFields = await getObjectFields(sourceConn, relationObject);
+    const targetFields = await getObjectFields(targetConn, relationObject);
+    const targetCreateable = new Set(targetFields.filter((f) => f.createable).map((f) => f.name));
+    insertableFields = getInsertableFieldNames(sourceFields).filter((f) => targetCreateable.has(f));
+  } catch (err) {
+    logger.warn(`${relationObject} is not available — skipping it (${err instanceof Error ? err.message : String(err)})`);
+    return null;
+  }
+
+  logger.startSpinner(`Querying ${relationObject}s from source...`);
+
+  const relations = await queryAllChunked(
+    sourceConn,
+    insertedSourceIds,
+    (chunk) =>
+      `SELECT ${buildSelectFields(insertableFields, [activityField, 'RelationId', 'IsWhat'])}
+       FROM ${relationObject}
+       WHERE ${activityField} IN (${inClause(chunk)})`
+  );
+
+  const activityIdMap: IdMap = idMaps[activityType] ?? new Map();
+  const relationIdMap: IdMap = idMaps[relationObject] ?? new Map();
+  idMaps[relationObject] = relationIdMap;
+  const whoIds = new Map(sourceActivities.map((a) => [a['Id'] as string, a['WhoId'] as string | null]));
+
+  const prepared: Array<Record<string, unknown>> = [];
+  const preparedSourceIds: string[] = [];
+  let skipped = 0;
+
+  for (const rel of relations) {
+    const sourceActivityId = rel[activityField] as string;
+    const sourceRelationId = rel['RelationId'] as string;
+    // Created by the platform along with the activity
+    if (rel['IsWhat'] || whoIds.get(sourceActivityId) === sourceRelationId) continue;
+
+    // Contacts and leads follow the seeded records; users the user mapping
+    const targetActivityId = dryRun ? sourceActivityId : activityIdMap.get(sourceActivityId);
+    const targetRelationId = dryRun
+      ? sourceRelationId
+      : findInAnyIdMap(idMaps, sourceRelationId) ?? config.userMapping?.mapped.get(sourceRelationId);
+    if (!targetActivityId || !targetRelationId) {
+      skipped++;
+      continue;
+    }
+
+    const p: Record<string, unknown> = {};
+    for (const fieldName of insertableFields) {
+      if (rel[fieldName] !== undefined) p[fieldName] = rel[fieldName];
+    }
+    p[activityField] = targetActivityId;
+    p['RelationId'] = targetRelationId;
+    prepared.push(p);
+    preparedSourceIds.push(rel['Id'] as string);
+  }
+
+  logger.updateSpinner(`Inserting ${prepared.length} ${relationObject}s into target...`);
+
+  const result = await batchInsert(
+    targetConn, relationObject, prepared, preparedSourceIds,
+    relationIdMap, errors, logger, dryRun, config
+  );
+
+  logger.stopSpinner(`${relationObject}: ${result.inserted} inserted, ${result.failed} failed, ${skipped} skipped`);
+
+  return {
+    objectApiName: relationObject,
+    parentObject: activityType,
+    depth: 1,
+    queried: relations.length,
+    inserted: result.inserted,
+    updated: 0,
+    failed: result.failed,
+    skipped,
   };
 }
 
 // ---------------------------------------------------------------------------
-// Step 6: Seed Files (ContentDocumentLink + ContentVersion)
+// Step 5: Seed Files (ContentDocumentLink + ContentVersion)
 // ---------------------------------------------------------------------------
 
+// The ContentDocument created for a newly inserted ContentVersion
+async function queryContentDocumentId(conn: Connection, contentVersionId: string): Promise<string | undefined> {
+  const result = await conn.query(`SELECT ContentDocumentId FROM ContentVersion WHERE Id = '${contentVersionId}'`);
+  const records = (result as unknown as { records: Array<Record<string, unknown>> }).records;
+  return records[0]?.['ContentDocumentId'] as string | undefined;
+}
+
+// Uploads one source ContentVersion. Large files are piped from the download
+// into a multipart upload; small ones are downloaded whole and sent as base64
+// JSON. With a target document ID the upload becomes its next version.
+async function transferContentVersion(
+  config: SeedConfig,
+  cv: Record<string, unknown>,
+  targetDocId?: string
+): Promise<InsertResult> {
+  const { sourceConn, targetConn } = config;
+  const cvId = cv['Id'] as string;
+  const size = (cv['ContentSize'] as number) || 0;
+
+  if (size > MAX_FILE_UPLOAD_BYTES) {
+    throw new Error(
+      `${cv['Title'] as string} is ${formatBytes(size)} — larger than the ${formatBytes(MAX_FILE_UPLOAD_BYTES)} upload limit`
+    );
+  }
+
+  const newVersion: Record<string, unknown> = {
+    Title: cv['Title'] as string,
+    PathOnClient: cv['PathOnClient'] as string,
+    Description: (cv['Description'] as string) || '',
+  };
+  if (targetDocId) {
+    newVersion['ContentDocumentId'] = targetDocId;
+    if (cv['ReasonForChange']) newVersion['ReasonForChange'] = cv['ReasonForChange'];
+  }
+
+  const streamThreshold = config.fileStreamThreshold ?? DEFAULT_FILE_STREAM_THRESHOLD_MB * 1024 * 1024;
+  if (size >= streamThreshold) {
+    return uploadVersionData(targetConn, newVersion, await openVersionData(sourceConn, cvId), size);
+  }
+  const buffer = await downloadVersionData(sourceConn, cvId);
+  newVersion['VersionData'] = buffer.toString('base64');
+  return (await targetConn.sobject('ContentVersion').create(newVersion)) as unknown as InsertResult;
+}
+
 async function seedFiles(
   config: SeedConfig,
   idMaps: IdMapCollection,
@@ -951,12 +1861,15 @@ async function seedFiles(
     return { filesFound: 0, filesUploaded: 0, filesFailed: 0, linksCreated: 0 };
   }
 
-  // Step 6a: Query ContentDocumentLinks
+  // Step 5a: Query ContentDocumentLinks
+  const linkFields = config.preserveFileSharing
+    ? 'ContentDocumentId, LinkedEntityId, ShareType, Visibility'
+    : 'ContentDocumentId, LinkedEntityId';
   const links = await queryAllChunked(
     sourceConn,
     allSourceIds,
     (chunk) =>
-      `SELECT ContentDocumentId, LinkedEntityId FROM ContentDocumentLink WHERE LinkedEntityId IN (${inClause(chunk)})`
+      `SELECT ${linkFields} FROM ContentDocumentLink WHERE LinkedEntityId IN (${inClause(chunk)})`
   );
 
   if (links.length === 0) {
@@ -968,106 +1881,150 @@ async function seedFiles(
   const contentDocIds = [...new Set(links.map((l) => l['ContentDocumentId'] as string))];
   logger.updateSpinner(`Found ${contentDocIds.length} unique files across ${links.length} links`);
 
-  // Step 6b: Query ContentVersions (latest version of each document)
+  // Step 5b: Query ContentVersions (latest version of each document, or all of them in order)
+  const { includeFileVersions } = config;
+  const latestOnly = includeFileVersions ? '' : ' AND IsLatestVersion = true';
   const versions = await queryAllChunked(
     sourceConn,
     contentDocIds,
     (chunk) =>
-      `SELECT Id, ContentDocumentId, Title, PathOnClient, FileExtension, ContentSize, Description
+      `SELECT Id, ContentDocumentId, Title, PathOnClient, FileExtension, ContentSize, Description, VersionNumber, ReasonForChange
        FROM ContentVersion
-       WHERE ContentDocumentId IN (${inClause(chunk)}) AND IsLatestVersion = true`
+       WHERE ContentDocumentId IN (${inClause(chunk)})${latestOnly}`
   );
 
-  logger.updateSpinner(`Found ${versions.length} ContentVersions to transfer`);
+  const versionsByDoc = new Map<string, Array<Record<string, unknown>>>();
+  for (const cv of versions) {
+    const contentDocId = cv['ContentDocumentId'] as string;
+    if (!versionsByDoc.has(contentDocId)) versionsByDoc.set(contentDocId, []);
+    versionsByDoc.get(contentDocId)!.push(cv);
+  }
+  for (const docVersions of versionsByDoc.values()) {
+    docVersions.sort((a, b) => Number(a['VersionNumber']) - Number(b['VersionNumber']));
+  }
+  const documents = [...versionsByDoc.entries()];
+
+  logger.updateSpinner(`Found ${versions.length} ContentVersions to transfer`);
 
   if (dryRun) {
     const totalSize = versions.reduce((sum, v) => sum + ((v['ContentSize'] as number) || 0), 0);
+    const versionNote = includeFileVersions ? ` in ${versions.length} versions` : '';
     logger.stopSpinner(
-      `[DRY RUN] Would upload ${versions.length} files (${formatBytes(totalSize)}) and create ${links.length} links`
+      `[DRY RUN] Would upload ${documents.length} files${versionNote} (${formatBytes(totalSize)}) and create ${links.length} links`
     );
     return {
-      filesFound: versions.length,
-      filesUploaded: versions.length,
+      filesFound: documents.length,
+      filesUploaded: documents.length,
       filesFailed: 0,
       linksCreated: links.length,
+      ...(includeFileVersions ? { versionsUploaded: versions.length } : {}),
     };
   }
 
-  // Step 6c: Download and upload files
+  // Step 5c: Download and upload files
   let filesUploaded = 0;
   let filesFailed = 0;
-  const sourceDocIdToTargetDocId = new Map<string, string>();
-
-  for (let i = 0; i < versions.length; i++) {
-    const cv = versions[i];
-    const cvId = cv['Id'] as string;
-    const title = cv['Title'] as string;
-    const contentDocId = cv['ContentDocumentId'] as string;
-
-    logger.updateSpinner(`Uploading file ${i + 1}/${versions.length}: ${title}`);
-
-    try {
-      // Download binary content
-      const apiVersion = sourceConn.getApiVersion();
-      const downloadUrl = `${sourceConn.instanceUrl}/services/data/v${apiVersion}/sobjects/ContentVersion/${cvId}/VersionData`;
-      const response = await fetch(downloadUrl, {
-        headers: { Authorization: `Bearer ${sourceConn.accessToken!}` },
-        redirect: 'follow',
-      });
-
-      if (!response.ok) {
-        throw new Error(`Download failed: ${response.status} ${response.statusText}`);
-      }
-
-      const buffer = Buffer.from(await response.arrayBuffer());
-      const base64Body = buffer.toString('base64');
-
-      // Upload to target
-      const insertResult = await targetConn.sobject('ContentVersion').create({
-        Title: title,
-        PathOnClient: cv['PathOnClient'] as string,
-        VersionData: base64Body,
-        Description: (cv['Description'] as string) || '',
-      });
+  let versionsUploaded = 0;
+  const sourceDocIdToTargetDocId: IdMap = idMaps[CONTENT_DOCUMENT_MAP_KEY] ?? new Map();
+  idMaps[CONTENT_DOCUMENT_MAP_KEY] = sourceDocIdToTargetDocId;
+
+  // Documents run on a bounded worker pool; the versions of one document are
+  // uploaded in order. Progress counts completions, not start order.
+  let completed = 0;
+  const restoredDocIds = new Set<string>();
+
+  await runPool(documents, config.concurrency ?? DEFAULT_CONCURRENCY, async ([contentDocId, docVersions], i) => {
+    // Resume — document already transferred by an earlier attempt
+    if (sourceDocIdToTargetDocId.has(contentDocId)) {
+      restoredDocIds.add(sourceDocIdToTargetDocId.get(contentDocId)!);
+      filesUploaded++;
+      completed++;
+      return;
+    }
 
-      const result = insertResult as unknown as InsertResult;
-      if (result.success && result.id) {
-        filesUploaded++;
+    const title = docVersions[docVersions.length - 1]['Title'] as string;
+    logger.updateSpinner(`Uploading file ${i + 1}/${documents.length}: ${title}`);
+
+    let targetDocId: string | undefined;
+    let transferred = 0;
+    for (const cv of docVersions) {
+      const cvId = cv['Id'] as string;
+
+      try {
+        // Later versions are added to the document created by the first
+        const result = await transferContentVersion(config, cv, targetDocId);
+        if (!result.success || !result.id) {
+          errors.push({
+            object: 'ContentVersion',
+            sourceId: cvId,
+            stage: 'upload',
+            error: formatErrors(result.errors),
+          });
+          break;
+        }
+        versionsUploaded++;
 
-        // Query back the ContentDocumentId for the newly created version
-        const newCv = await targetConn.query(
-          `SELECT ContentDocumentId FROM ContentVersion WHERE Id = '${result.id}'`
-        );
-        const newRecords = (newCv as unknown as { records: Array<Record<string, unknown>> }).records;
-        if (newRecords.length > 0) {
-          sourceDocIdToTargetDocId.set(contentDocId, newRecords[0]['ContentDocumentId'] as string);
+        if (!targetDocId) {
+          targetDocId = await queryContentDocumentId(targetConn, result.id);
+          if (!targetDocId) {
+            errors.push({
+              object: 'ContentVersion',
+              sourceId: cvId,
+              stage: 'upload',
+              error: `Uploaded as ContentVersion ${result.id}, but its ContentDocument could not be read back — delete it from the target`,
+            });
+            break;
+          }
         }
-      } else {
-        filesFailed++;
+        transferred++;
+      } catch (err) {
         errors.push({
           object: 'ContentVersion',
           sourceId: cvId,
           stage: 'upload',
-          error: formatErrors(result.errors),
+          error: err instanceof Error ? err.message : String(err),
+        });
+        // Later versions cannot be replayed out of order
+        break;
+      }
+    }
+
+    // Only a document with every version transferred is mapped — a checkpoint
+    // must never mark a half-transferred one as done for resume to skip
+    if (targetDocId && transferred === docVersions.length) {
+      sourceDocIdToTargetDocId.set(contentDocId, targetDocId);
+      filesUploaded++;
+    } else {
+      if (targetDocId) {
+        errors.push({
+          object: 'ContentDocument',
+          sourceId: contentDocId,
+          stage: 'upload',
+          error: `Only ${transferred} of ${docVersions.length} version(s) transferred — partial document ${targetDocId} left in the target`,
         });
       }
-    } catch (err) {
       filesFailed++;
-      errors.push({
-        object: 'ContentVersion',
-        sourceId: cvId,
-        stage: 'upload',
-        error: err instanceof Error ? err.message : String(err),
-      });
     }
-  }
+    config.onBatchCommitted?.(CONTENT_DOCUMENT_MAP_KEY, ++completed, documents.length);
+  });
 
-  // Step 6d: Create ContentDocumentLinks in target
+  // Step 5d: Create ContentDocumentLinks in target
   logger.updateSpinner('Creating ContentDocumentLinks in target...');
 
   let linksCreated = 0;
   const newLinks: Array<Record<string, unknown>> = [];
 
+  // Resume — links of restored documents may have been created by the earlier attempt too
+  const existingLinks = new Set<string>();
+  if (restoredDocIds.size > 0) {
+    const targetLinks = await queryAllChunked(
+      targetConn,
+      [...restoredDocIds],
+      (chunk) => `SELECT ContentDocumentId, LinkedEntityId FROM ContentDocumentLink WHERE ContentDocumentId IN (${inClause(chunk)})`
+    );
+    for (const tl of targetLinks) existingLinks.add(`${tl['ContentDocumentId'] as string}:${tl['LinkedEntityId'] as string}`);
+  }
+
   for (const link of links) {
     const sourceDocId = link['ContentDocumentId'] as string;
     const sourceEntityId = link['LinkedEntityId'] as string;
@@ -1075,12 +2032,15 @@ async function seedFiles(
     const targetDocId = sourceDocIdToTargetDocId.get(sourceDocId);
     const targetEntityId = findInAnyIdMap(idMaps, sourceEntityId);
 
-    if (targetDocId && targetEntityId) {
+    if (targetDocId && targetEntityId && existingLinks.has(`${targetDocId}:${targetEntityId}`)) {
+      linksCreated++;
+    } else if (targetDocId && targetEntityId) {
+      // ShareType / Visibility are only queried when the source settings are preserved
       newLinks.push({
         ContentDocumentId: targetDocId,
         LinkedEntityId: targetEntityId,
-        ShareType: 'V',
-        Visibility: 'AllUsers',
+        ShareType: (link['ShareType'] as string | undefined) ?? 'V',
+        Visibility: (link['Visibility'] as string | undefined) ?? 'AllUsers',
       });
     }
   }
@@ -1104,146 +2064,888 @@ async function seedFiles(
   }
 
   logger.stopSpinner(
-    `Files: ${filesUploaded} uploaded, ${filesFailed} failed, ${linksCreated} links created`
+    `Files: ${filesUploaded} uploaded${includeFileVersions ? ` (${versionsUploaded} versions)` : ''}, ${filesFailed} failed, ${linksCreated} links created`
   );
 
   return {
-    filesFound: versions.length,
+    filesFound: documents.length,
     filesUploaded,
     filesFailed,
     linksCreated,
+    ...(includeFileVersions ? { versionsUploaded } : {}),
   };
 }
 
 // ---------------------------------------------------------------------------
-// Main entry point: runSeeder
+// Step 6: Seed Attachments (classic)
 // ---------------------------------------------------------------------------
 
-export async function runSeeder(config: SeedConfig): Promise<SeedResults> {
-  const { logger, shouldAbort } = config;
-  const idMaps: IdMapCollection = {};
-  const errors: SeedError[] = [];
+async function seedAttachments(
+  config: SeedConfig,
+  idMaps: IdMapCollection,
+  errors: SeedError[]
+): Promise<LegacyFileSeedResult> {
+  const { sourceConn, targetConn, logger, dryRun } = config;
+  const convert = config.convertLegacyFiles ?? false;
+  const convertedTo = convert ? ('ContentVersion' as const) : undefined;
 
-  const results: SeedResults = {
-    coreObject: { objectApiName: '', queried: 0, inserted: 0, updated: 0, failed: 0, skipped: 0 },
-    children: [],
-    grandchildren: [],
-    tasks: null,
-    events: null,
-    files: null,
-    errors,
-    dryRun: config.dryRun,
-  };
+  logger.startSpinner('Querying Attachments from source...');
 
-  // Step 1: Core object
-  logger.log(`\nStep 1/6: Seeding core object — ${config.coreObject.objectApiName}`);
-  results.coreObject = await seedCoreObject(config, idMaps, errors);
+  const allSourceIds = getAllSourceIds(idMaps);
 
-  if (shouldAbort?.()) {
-    logger.warn('Aborted after core object');
-    return results;
+  if (allSourceIds.length === 0) {
+    logger.stopSpinner('No source IDs to query Attachments for');
+    return { found: 0, inserted: 0, failed: 0, convertedTo };
   }
 
-  if (results.coreObject.inserted === 0 && results.coreObject.updated === 0 && !config.dryRun) {
-    logger.warn('No core records were created. Skipping children/activities/files.');
-    return results;
+  const attachments = await queryAllChunked(
+    sourceConn,
+    allSourceIds,
+    (chunk) =>
+      `SELECT Id, Name, ContentType, Description, IsPrivate, ParentId, OwnerId, BodyLength
+       FROM Attachment
+       WHERE ParentId IN (${inClause(chunk)})`
+  );
+
+  if (attachments.length === 0) {
+    logger.stopSpinner('No Attachments found');
+    return { found: 0, inserted: 0, failed: 0, convertedTo };
   }
 
-  // Collect core source IDs
-  const coreSourceIds = [...(idMaps[config.coreObject.objectApiName]?.keys() ?? [])];
+  if (dryRun) {
+    const totalSize = attachments.reduce((sum, a) => sum + ((a['BodyLength'] as number) || 0), 0);
+    logger.stopSpinner(
+      `[DRY RUN] Would ${convert ? 'convert' : 'copy'} ${attachments.length} Attachments (${formatBytes(totalSize)})${convert ? ' to Files' : ''}`
+    );
+    return { found: attachments.length, inserted: attachments.length, failed: 0, convertedTo };
+  }
 
-  // Step 2: Child objects (sequential)
-  if (config.children.length > 0) {
-    logger.log(`\nStep 2/6: Seeding ${config.children.length} child object(s)`);
+  // Converted attachments are tracked (and rolled back) with the other ContentDocuments
+  const idMapKey = convert ? CONTENT_DOCUMENT_MAP_KEY : 'Attachment';
+  const idMap: IdMap = idMaps[idMapKey] ?? new Map();
+  idMaps[idMapKey] = idMap;
+  const userFields = userLookupFields(await getObjectFields(sourceConn, 'Attachment'), ['OwnerId']);
 
-    for (const child of config.children) {
-      if (shouldAbort?.()) {
-        logger.warn('Aborted during child seeding');
-        return results;
+  let inserted = 0;
+  let failed = 0;
+  let completed = 0;
+
+  await runPool(attachments, config.concurrency ?? DEFAULT_CONCURRENCY, async (att, i) => {
+    const sourceId = att['Id'] as string;
+
+    // Resume — copied by an earlier attempt
+    if (idMap.has(sourceId)) {
+      inserted++;
+      completed++;
+      return;
+    }
+
+    logger.updateSpinner(`${convert ? 'Converting' : 'Copying'} Attachment ${i + 1}/${attachments.length}: ${att['Name'] as string}`);
+
+    try {
+      const body = (await downloadAttachmentBody(sourceConn, sourceId)).toString('base64');
+      const parentId = findInAnyIdMap(idMaps, att['ParentId'] as string);
+
+      // Masking rules are written against Attachment fields, so mask before converting
+      const fields: Record<string, unknown> = {
+        Name: att['Name'],
+        ContentType: att['ContentType'],
+        Description: att['Description'],
+        IsPrivate: att['IsPrivate'],
+      };
+      maskPrepared(config, 'Attachment', fields);
+
+      let record: Record<string, unknown> = { ...fields, Body: body, ParentId: parentId };
+      if (convert) {
+        // FirstPublishLocationId links the new file to the parent record
+        record = {
+          Title: fields['Name'],
+          PathOnClient: fields['Name'],
+          VersionData: body,
+          Description: (fields['Description'] as string) || '',
+          FirstPublishLocationId: parentId,
+          SharingPrivacy: fields['IsPrivate'] ? 'P' : 'N',
+        };
       }
+      applyUserLookups(config, userFields, att, record);
 
-      const childResult = await seedRelatedObject(
-        config,
-        child.objectApiName,
-        child.lookupField,
-        coreSourceIds,
-        idMaps,
-        errors,
-        child.externalIdField
-      );
-      results.children.push(childResult);
+      const result = (await targetConn.sobject(convert ? 'ContentVersion' : 'Attachment').create(record)) as unknown as InsertResult;
+      if (result.success && result.id) {
+        const targetId = convert ? await queryContentDocumentId(targetConn, result.id) : result.id;
+        if (targetId) idMap.set(sourceId, targetId);
+        inserted++;
+      } else {
+        failed++;
+        errors.push({ object: 'Attachment', sourceId, stage: 'upload', error: formatErrors(result.errors) });
+      }
+    } catch (err) {
+      failed++;
+      errors.push({ object: 'Attachment', sourceId, stage: 'upload', error: err instanceof Error ? err.message : String(err) });
+    }
+
+    config.onBatchCommitted?.('Attachment', ++completed, attachments.length);
+  });
+
+  logger.stopSpinner(
+    `Attachments: ${inserted} ${convert ? 'converted to Files' : 'copied'}, ${failed} failed`
+  );
+
+  return { found: attachments.length, inserted, failed, convertedTo };
+}
+
+// ---------------------------------------------------------------------------
+// Step 7: Seed Notes (classic)
+// ---------------------------------------------------------------------------
+
+// ContentNote bodies are HTML, base64-encoded
+function toContentNoteBody(text: string): string {
+  const html = text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\r?\n/g, '<br>');
+  return Buffer.from(html, 'utf8').toString('base64');
+}
+
+async function seedNotes(
+  config: SeedConfig,
+  idMaps: IdMapCollection,
+  errors: SeedError[]
+): Promise<LegacyFileSeedResult> {
+  const { sourceConn, targetConn, logger, dryRun } = config;
+  const convert = config.convertLegacyFiles ?? false;
+  const convertedTo = convert ? ('ContentNote' as const) : undefined;
+
+  logger.startSpinner('Querying Notes from source...');
+
+  const allSourceIds = getAllSourceIds(idMaps);
+
+  if (allSourceIds.length === 0) {
+    logger.stopSpinner('No source IDs to query Notes for');
+    return { found: 0, inserted: 0, failed: 0, convertedTo };
+  }
+
+  const notes = await queryAllChunked(
+    sourceConn,
+    allSourceIds,
+    (chunk) => `SELECT Id, Title, Body, IsPrivate, ParentId, OwnerId FROM Note WHERE ParentId IN (${inClause(chunk)})`
+  );
+
+  if (notes.length === 0) {
+    logger.stopSpinner('No Notes found');
+    return { found: 0, inserted: 0, failed: 0, convertedTo };
+  }
+
+  const userFields = userLookupFields(await getObjectFields(sourceConn, 'Note'), ['OwnerId']);
+  const prepared: Array<Record<string, unknown>> = [];
+  const preparedSourceIds: string[] = [];
+  const targetParents = new Map<string, string>();
+
+  for (const note of notes) {
+    const sourceId = note['Id'] as string;
+    const parentId = findInAnyIdMap(idMaps, note['ParentId'] as string);
+    if (!parentId) continue;
+    targetParents.set(sourceId, parentId);
+
+    const fields: Record<string, unknown> = { Title: note['Title'], Body: note['Body'], IsPrivate: note['IsPrivate'] };
+    maskPrepared(config, 'Note', fields);
+
+    const record: Record<string, unknown> = convert
+      ? { Title: fields['Title'], Content: toContentNoteBody((fields['Body'] as string) ?? '') }
+      : { ...fields, ParentId: parentId };
+    applyUserLookups(config, userFields, note, record);
+    prepared.push(record);
+    preparedSourceIds.push(sourceId);
+  }
+
+  logger.updateSpinner(`${convert ? 'Converting' : 'Copying'} ${prepared.length} Notes...`);
+
+  if (!convert) {
+    const noteIdMap: IdMap = idMaps['Note'] ?? new Map();
+    idMaps['Note'] = noteIdMap;
+    const result = await batchInsert(
+      targetConn, 'Note', prepared, preparedSourceIds,
+      noteIdMap, errors, logger, dryRun, config
+    );
+    logger.stopSpinner(`Notes: ${result.inserted} copied, ${result.failed} failed`);
+    return { found: notes.length, inserted: result.inserted, failed: result.failed };
+  }
+
+  // A ContentNote's Id is its ContentDocument Id, so it goes straight into that map
+  const docIdMap: IdMap = idMaps[CONTENT_DOCUMENT_MAP_KEY] ?? new Map();
+  idMaps[CONTENT_DOCUMENT_MAP_KEY] = docIdMap;
+  const alreadyConverted = new Set(preparedSourceIds.filter((id) => docIdMap.has(id)));
+
+  // Bulk API 2.0 cannot load base64 fields like ContentNote.Content
+  const result = await batchInsert(
+    targetConn, 'ContentNote', prepared, preparedSourceIds,
+    docIdMap, errors, logger, dryRun, { ...config, forceBulk: false, bulkThreshold: Number.POSITIVE_INFINITY }
+  );
+
+  // Link the notes created by this attempt to their parent records
+  const newLinks = preparedSourceIds
+    .filter((id) => !alreadyConverted.has(id) && docIdMap.has(id))
+    .map((id) => ({
+      ContentDocumentId: docIdMap.get(id),
+      LinkedEntityId: targetParents.get(id),
+      ShareType: 'V',
+      Visibility: 'AllUsers',
+    }));
+
+  for (let i = 0; i < newLinks.length && !dryRun; i += BATCH_SIZE) {
+    const batch = newLinks.slice(i, i + BATCH_SIZE);
+    const insertResults = await targetConn.sobject('ContentDocumentLink').create(batch);
+    const resultArray = Array.isArray(insertResults) ? insertResults : [insertResults];
+
+    for (const r of resultArray as InsertResult[]) {
+      if (!r.success) {
+        errors.push({
+          object: 'ContentDocumentLink',
+          stage: 'link',
+          error: formatErrors(r.errors),
+        });
+      }
     }
+  }
+
+  logger.stopSpinner(`Notes: ${result.inserted} converted to ContentNotes, ${result.failed} failed`);
+  return { found: notes.length, inserted: result.inserted, failed: result.failed, convertedTo };
+}
+
+// ---------------------------------------------------------------------------
+// Step 8: Seed Chatter feed (FeedItem + FeedComment)
+// ---------------------------------------------------------------------------
+
+const FEED_ITEM_FIELDS = ['Type', 'Body', 'IsRichText', 'LinkUrl', 'Title', 'RelatedRecordId'];
+const FEED_COMMENT_FIELDS = ['CommentType', 'CommentBody', 'IsRichText', 'RelatedRecordId'];
+// Only createable with "Insert System Field Values for Chatter Feeds"
+const FEED_AUDIT_FIELDS = ['CreatedById', 'CreatedDate'];
+
+// Candidate fields the target lets the running user create
+async function feedInsertFields(conn: Connection, objectApiName: string, candidates: string[]): Promise<FieldInfo[]> {
+  const wanted = new Set([...candidates, ...FEED_AUDIT_FIELDS]);
+  const fields = await getObjectFields(conn, objectApiName);
+  return fields.filter((f) => f.createable && wanted.has(f.name));
+}
+
+// The author follows the user mapping; without a match (or a mapping) the
+// running user becomes the author
+function prepareFeedRecord(
+  config: SeedConfig,
+  objectApiName: string,
+  source: Record<string, unknown>,
+  fields: FieldInfo[]
+): Record<string, unknown> {
+  const prepared: Record<string, unknown> = {};
+  for (const field of fields) {
+    const value = source[field.name];
+    if (value !== undefined && value !== null) prepared[field.name] = value;
+  }
+  delete prepared['RelatedRecordId'];
+  maskPrepared(config, objectApiName, prepared);
+
+  if (config.userMapping && prepared['CreatedById']) {
+    applyUserLookups(config, fields.filter((f) => f.name === 'CreatedById'), source, prepared);
   } else {
-    logger.log('\nStep 2/6: No child objects selected — skipping');
+    delete prepared['CreatedById'];
   }
+  return prepared;
+}
+
+// Content posts and comments point at a ContentVersion. Files seeded in Step 5
+// are reused (their latest target version); anything else is uploaded now
+// through the same transfer path and tracked with the other ContentDocuments.
+async function resolveFeedContent(
+  config: SeedConfig,
+  versionIds: string[],
+  idMaps: IdMapCollection,
+  errors: SeedError[]
+): Promise<Map<string, string>> {
+  const { sourceConn, targetConn } = config;
+  const targetVersions = new Map<string, string>();
+
+  const versions = await queryAllChunked(
+    sourceConn,
+    [...new Set(versionIds)],
+    (chunk) =>
+      `SELECT Id, ContentDocumentId, Title, PathOnClient, ContentSize, Description
+       FROM ContentVersion
+       WHERE Id IN (${inClause(chunk)})`
+  );
 
-  // Step 3: Grandchild objects (after all children)
-  const grandchildren = config.children.flatMap((c) => c.grandchildren);
-  if (grandchildren.length > 0) {
-    logger.log(`\nStep 3/6: Seeding ${grandchildren.length} grandchild object(s)`);
+  const docIdMap: IdMap = idMaps[CONTENT_DOCUMENT_MAP_KEY] ?? new Map();
+  idMaps[CONTENT_DOCUMENT_MAP_KEY] = docIdMap;
 
-    for (const gc of grandchildren) {
-      if (shouldAbort?.()) {
-        logger.warn('Aborted during grandchild seeding');
-        return results;
+  const seededDocIds = [
+    ...new Set(versions.map((cv) => docIdMap.get(cv['ContentDocumentId'] as string)).filter((id): id is string => !!id)),
+  ];
+  const seededDocs = await queryAllChunked(
+    targetConn,
+    seededDocIds,
+    (chunk) => `SELECT Id, LatestPublishedVersionId FROM ContentDocument WHERE Id IN (${inClause(chunk)})`
+  );
+  const latestVersion = new Map(seededDocs.map((d) => [d['Id'] as string, d['LatestPublishedVersionId'] as string]));
+
+  // One upload per document, shared by every post pointing at one of its versions
+  const pending = new Map<string, Array<Record<string, unknown>>>();
+  for (const cv of versions) {
+    const sourceDocId = cv['ContentDocumentId'] as string;
+    const latest = latestVersion.get(docIdMap.get(sourceDocId) ?? '');
+    if (latest) {
+      targetVersions.set(cv['Id'] as string, latest);
+    } else {
+      if (!pending.has(sourceDocId)) pending.set(sourceDocId, []);
+      pending.get(sourceDocId)!.push(cv);
+    }
+  }
+
+  await runPool([...pending.entries()], config.concurrency ?? DEFAULT_CONCURRENCY, async ([sourceDocId, docVersions]) => {
+    const [cv] = docVersions;
+    try {
+      const result = await transferContentVersion(config, cv);
+      if (!result.success || !result.id) {
+        errors.push({ object: 'ContentVersion', sourceId: cv['Id'] as string, stage: 'upload', error: formatErrors(result.errors) });
+        return;
       }
+      for (const version of docVersions) targetVersions.set(version['Id'] as string, result.id);
+      const targetDocId = await queryContentDocumentId(targetConn, result.id);
+      if (targetDocId) docIdMap.set(sourceDocId, targetDocId);
+    } catch (err) {
+      errors.push({
+        object: 'ContentVersion',
+        sourceId: cv['Id'] as string,
+        stage: 'upload',
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  });
+
+  return targetVersions;
+}
+
+function contentVersionIds(records: Array<Record<string, unknown>>, typeField: string, contentType: string): string[] {
+  return records
+    .filter((r) => r[typeField] === contentType && r['RelatedRecordId'])
+    .map((r) => r['RelatedRecordId'] as string);
+}
+
+async function seedFeed(
+  config: SeedConfig,
+  idMaps: IdMapCollection,
+  errors: SeedError[]
+): Promise<FeedSeedResult> {
+  const { sourceConn, targetConn, logger, dryRun } = config;
+  const emptyResult = (objectApiName: string): ObjectSeedResult => ({
+    objectApiName, queried: 0, inserted: 0, updated: 0, failed: 0, skipped: 0,
+  });
+  // Chatter objects are always loaded through the REST API
+  const batchOptions: BatchOptions = { ...config, forceBulk: false, bulkThreshold: Number.POSITIVE_INFINITY };
+
+  logger.startSpinner('Querying FeedItems from source...');
+
+  const allSourceIds = getAllSourceIds(idMaps);
+
+  if (allSourceIds.length === 0) {
+    logger.stopSpinner('No source IDs to query the feed for');
+    return { posts: emptyResult('FeedItem'), comments: emptyResult('FeedComment') };
+  }
+
+  // Step 8a: Posts
+  const posts = await queryAllChunked(
+    sourceConn,
+    allSourceIds,
+    (chunk) =>
+      `SELECT Id, ParentId, ${[...FEED_ITEM_FIELDS, ...FEED_AUDIT_FIELDS].join(', ')}
+       FROM FeedItem
+       WHERE ParentId IN (${inClause(chunk)})`
+  );
+
+  if (posts.length === 0) {
+    logger.stopSpinner('No feed posts found');
+    return { posts: emptyResult('FeedItem'), comments: emptyResult('FeedComment') };
+  }
+
+  const postIdMap: IdMap = idMaps['FeedItem'] ?? new Map();
+  idMaps['FeedItem'] = postIdMap;
+  const postFields = await feedInsertFields(targetConn, 'FeedItem', FEED_ITEM_FIELDS);
+
+  // Tracked changes, system and app posts cannot be created
+  const creatablePosts = posts.filter((p) => CREATABLE_FEED_ITEM_TYPES.has(p['Type'] as string));
+  let postsSkipped = posts.length - creatablePosts.length;
+
+  logger.updateSpinner(`Found ${posts.length} feed posts (${creatablePosts.length} can be created)`);
+
+  const postContent = dryRun
+    ? new Map<string, string>()
+    : await resolveFeedContent(
+        config,
+        contentVersionIds(creatablePosts.filter((p) => !postIdMap.has(p['Id'] as string)), 'Type', 'ContentPost'),
+        idMaps,
+        errors
+      );
+
+  const preparedPosts: Array<Record<string, unknown>> = [];
+  const preparedPostIds: string[] = [];
+
+  for (const post of creatablePosts) {
+    const sourceId = post['Id'] as string;
+    const p = prepareFeedRecord(config, 'FeedItem', post, postFields);
+    p['ParentId'] = findInAnyIdMap(idMaps, post['ParentId'] as string);
 
-      const parentChildIdMap = idMaps[gc.parentChildObject];
-      if (!parentChildIdMap || parentChildIdMap.size === 0) {
-        logger.log(`  Skipping ${gc.objectApiName} — no ${gc.parentChildObject} records were seeded`);
+    if (post['Type'] === 'ContentPost') {
+      const sourceVersionId = post['RelatedRecordId'] as string | null;
+      const targetVersionId = dryRun || postIdMap.has(sourceId) ? sourceVersionId : postContent.get(sourceVersionId ?? '');
+      if (!targetVersionId) {
+        postsSkipped++;
         continue;
       }
+      p['RelatedRecordId'] = targetVersionId;
+    }
+
+    preparedPosts.push(p);
+    preparedPostIds.push(sourceId);
+  }
+
+  logger.updateSpinner(`Inserting ${preparedPosts.length} FeedItems into target...`);
+
+  const postResult = await batchInsert(
+    targetConn, 'FeedItem', preparedPosts, preparedPostIds,
+    postIdMap, errors, logger, dryRun, batchOptions
+  );
+
+  // Step 8b: Comments on the posts that made it across
+  const seededPostIds = dryRun ? preparedPostIds : preparedPostIds.filter((id) => postIdMap.has(id));
+  const comments = await queryAllChunked(
+    sourceConn,
+    seededPostIds,
+    (chunk) =>
+      `SELECT Id, FeedItemId, ${[...FEED_COMMENT_FIELDS, ...FEED_AUDIT_FIELDS].join(', ')}
+       FROM FeedComment
+       WHERE FeedItemId IN (${inClause(chunk)})`
+  );
+
+  const commentIdMap: IdMap = idMaps['FeedComment'] ?? new Map();
+  idMaps['FeedComment'] = commentIdMap;
+  const commentFields = comments.length > 0 ? await feedInsertFields(targetConn, 'FeedComment', FEED_COMMENT_FIELDS) : [];
 
-      const parentSourceIds = [...parentChildIdMap.keys()];
-      const gcResult = await seedRelatedObject(
+  const creatableComments = comments.filter((c) => CREATABLE_FEED_COMMENT_TYPES.has(c['CommentType'] as string));
+  let commentsSkipped = comments.length - creatableComments.length;
+
+  const commentContent = dryRun
+    ? new Map<string, string>()
+    : await resolveFeedContent(
         config,
-        gc.objectApiName,
-        gc.lookupField,
-        parentSourceIds,
+        contentVersionIds(
+          creatableComments.filter((c) => !commentIdMap.has(c['Id'] as string)),
+          'CommentType',
+          'ContentComment'
+        ),
         idMaps,
-        errors,
-        gc.externalIdField
+        errors
       );
-      results.grandchildren.push(gcResult);
+
+  const preparedComments: Array<Record<string, unknown>> = [];
+  const preparedCommentIds: string[] = [];
+
+  for (const comment of creatableComments) {
+    const sourceId = comment['Id'] as string;
+    const sourcePostId = comment['FeedItemId'] as string;
+    const c = prepareFeedRecord(config, 'FeedComment', comment, commentFields);
+    c['FeedItemId'] = postIdMap.get(sourcePostId) ?? sourcePostId;
+
+    if (comment['CommentType'] === 'ContentComment') {
+      const sourceVersionId = comment['RelatedRecordId'] as string | null;
+      const targetVersionId =
+        dryRun || commentIdMap.has(sourceId) ? sourceVersionId : commentContent.get(sourceVersionId ?? '');
+      if (!targetVersionId) {
+        commentsSkipped++;
+        continue;
+      }
+      c['RelatedRecordId'] = targetVersionId;
     }
-  } else {
-    logger.log('\nStep 3/6: No grandchild objects selected — skipping');
+
+    preparedComments.push(c);
+    preparedCommentIds.push(sourceId);
   }
 
-  // Step 4: Tasks
-  if (config.includeTasks) {
-    logger.log('\nStep 4/6: Seeding Tasks');
-    if (shouldAbort?.()) {
-      logger.warn('Aborted before Tasks');
-      return results;
+  logger.updateSpinner(`Inserting ${preparedComments.length} FeedComments into target...`);
+
+  const commentResult = await batchInsert(
+    targetConn, 'FeedComment', preparedComments, preparedCommentIds,
+    commentIdMap, errors, logger, dryRun, batchOptions
+  );
+
+  logger.stopSpinner(
+    `Feed: ${postResult.inserted} posts, ${commentResult.inserted} comments inserted, ` +
+      `${postResult.failed + commentResult.failed} failed, ${postsSkipped + commentsSkipped} skipped`
+  );
+
+  return {
+    posts: {
+      objectApiName: 'FeedItem',
+      queried: posts.length,
+      inserted: postResult.inserted,
+      updated: 0,
+      failed: postResult.failed,
+      skipped: postsSkipped,
+    },
+    comments: {
+      objectApiName: 'FeedComment',
+      queried: comments.length,
+      inserted: commentResult.inserted,
+      updated: 0,
+      failed: commentResult.failed,
+      skipped: commentsSkipped,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Main entry point: runSeeder
+// ---------------------------------------------------------------------------
+
+export async function runSeeder(inputConfig: SeedConfig): Promise<SeedResults> {
+  const { logger, shouldAbort, runFile, resumeState } = inputConfig;
+  const idMaps: IdMapCollection = resumeState ? restoreIdMaps(resumeState) : {};
+
+  const results: SeedResults = resumeState?.results ?? {
+    coreObject: { objectApiName: '', queried: 0, inserted: 0, updated: 0, failed: 0, skipped: 0 },
+    related: [],
+    tasks: null,
+    events: null,
+    files: null,
+    attachments: null,
+    notes: null,
+    feed: null,
+    errors: [],
+    dryRun: inputConfig.dryRun,
+  };
+  const errors = results.errors;
+
+  // A resumed run keeps its salt so masked values stay consistent across sessions
+  const maskingSalt = resumeState?.maskingSalt ?? inputConfig.maskingSalt ?? newMaskingSalt();
+
+  // Checkpointing — dry runs create nothing, so there is nothing to resume
+  const runState: RunState | null =
+    runFile && !inputConfig.dryRun ? resumeState ?? createRunState({ ...inputConfig, maskingSalt }, results) : null;
+
+  // The rollback manifest is rewritten with every checkpoint so it is never stale
+  let lastCheckpoint = 0;
+  const checkpoint = (): void => {
+    if (!runState || !runFile) return;
+    dedupeErrors(errors);
+    saveRunState(runFile, runState, idMaps, results);
+    writeManifest(manifestPathFor(runFile), buildManifest(runState, idMaps));
+    lastCheckpoint = Date.now();
+  };
+  // Each write covers the whole run, so per-batch writes are throttled to keep large runs linear
+  const batchCheckpoint = (): void => {
+    if (Date.now() - lastCheckpoint >= CHECKPOINT_INTERVAL_MS) checkpoint();
+  };
+  const stepDone = (step: SeedStep): boolean => runState !== null && isStepComplete(runState, step);
+  const completeStep = (step: SeedStep): void => {
+    if (!runState) return;
+    markStepComplete(runState, step);
+    checkpoint();
+  };
+  const objectDone = (step: SeedStep, objectApiName: string): boolean =>
+    runState !== null && isObjectComplete(runState, step, objectApiName);
+  const completeObject = (step: SeedStep, objectApiName: string): void => {
+    if (!runState) return;
+    markObjectComplete(runState, step, objectApiName);
+    checkpoint();
+  };
+  // Lookups left blank at insert time live in the run state: records committed
+  // before an interruption are not prepared again on resume, so nothing would re-collect them
+  const deferredLookups: DeferredLookup[] = runState ? (runState.deferredLookups ??= []) : [];
+
+  const stop = (msg: string): SeedResults => {
+    logger.warn(msg);
+    reportMappings();
+    checkpoint();
+    if (runState) logger.warn(`Run state saved to ${runFile!} — re-run with --resume ${runFile!} to continue`);
+    return results;
+  };
+
+  // Key prefixes tell polymorphic values which object (and IdMap) they belong to
+  const keyPrefixes = inputConfig.keyPrefixes ?? (await getKeyPrefixMap(inputConfig.sourceConn));
+
+  // User mapping is opt-in; without it user lookups are stripped and the running user owns everything
+  const { userMappingOptions } = inputConfig;
+  const userMapping =
+    inputConfig.userMapping ??
+    (userMappingOptions
+      ? await buildUserMapping(inputConfig.sourceConn, inputConfig.targetConn, userMappingOptions, logger)
+      : undefined);
+  // Queue/group owners are matched by DeveloperName once per run; without a mapping they are stripped
+  let groupMapping = inputConfig.groupMapping;
+  if (!groupMapping) {
+    try {
+      groupMapping = await buildGroupMapping(inputConfig.sourceConn, inputConfig.targetConn, logger);
+    } catch (err) {
+      logger.warn(`Could not read queues/groups — queue owners are stripped (${err instanceof Error ? err.message : String(err)})`);
     }
-    results.tasks = await seedActivities(config, 'Task', idMaps, errors);
-  } else {
-    logger.log('\nStep 4/6: Tasks not selected — skipping');
   }
 
-  // Step 5: Events
-  if (config.includeEvents) {
-    logger.log('\nStep 5/6: Seeding Events');
-    if (shouldAbort?.()) {
-      logger.warn('Aborted before Events');
-      return results;
+  // Picklist values are checked against the target as each object is prepared; translations carry over on resume
+  const picklistMapping =
+    inputConfig.picklistMapping ??
+    buildPicklistMapping(
+      inputConfig.picklistMappingOptions ?? { fallback: 'default' },
+      results.translatedPicklistValues ?? []
+    );
+
+  const previousUnmatchedUsers = results.unmatchedUsers ?? [];
+  const reportMappings = (): void => {
+    if (userMapping) results.unmatchedUsers = listUnmatchedUsers(userMapping, previousUnmatchedUsers);
+    const translated = listTranslatedPicklistValues(picklistMapping);
+    if (translated.length > 0) results.translatedPicklistValues = translated;
+  };
+
+  // Record types are matched by DeveloperName once per run; without a mapping RecordTypeId is stripped
+  let recordTypeMapping = inputConfig.recordTypeMapping;
+  if (!recordTypeMapping) {
+    try {
+      recordTypeMapping = await buildRecordTypeMapping(inputConfig.sourceConn, inputConfig.targetConn, logger);
+    } catch (err) {
+      logger.warn(
+        `Could not read record types — records use the target default (${err instanceof Error ? err.message : String(err)})`
+      );
     }
-    results.events = await seedActivities(config, 'Event', idMaps, errors);
-  } else {
-    logger.log('\nStep 5/6: Events not selected — skipping');
   }
 
-  // Step 6: Files
-  if (config.includeFiles) {
-    logger.log('\nStep 6/6: Seeding Files');
+  const config: SeedConfig = {
+    ...inputConfig,
+    maskingSalt,
+    keyPrefixes,
+    recordTypeMapping,
+    userMapping,
+    groupMapping,
+    picklistMapping,
+    // Persist committed batches so a crash loses at most the last couple of seconds
+    onBatchCommitted: (objectApiName, committed, total) => {
+      if (runState) runState.batchProgress[objectApiName] = { committed, total };
+      batchCheckpoint();
+      inputConfig.onBatchCommitted?.(objectApiName, committed, total);
+    },
+    onRecordsMatched: (objectApiName, targetIds) => {
+      if (runState) runState.matchedTargetIds.push(...targetIds);
+      inputConfig.onRecordsMatched?.(objectApiName, targetIds);
+    },
+    onRecordsFailed: (failed) => {
+      if (runState) recordFailures(runState, failed.map((f) => ({ ...f, lookups: f.lookups ?? preparedLookups.get(f.payload) })));
+      inputConfig.onRecordsFailed?.(failed);
+    },
+  };
+
+  if (resumeState) {
+    logger.log(`Resuming run ${resumeState.runId} (completed: ${resumeState.completedSteps.join(', ') || 'none'})`);
+  }
+  checkpoint();
+
+  try {
+    // Step 1: Core object
+    if (stepDone('core')) {
+      logger.log(`\nStep 1/8: Core object ${config.coreObject.objectApiName} already seeded — skipping`);
+    } else {
+      logger.log(`\nStep 1/8: Seeding core object — ${config.coreObject.objectApiName}`);
+      results.coreObject = await seedCoreObject(config, idMaps, errors, runState, deferredLookups);
+      completeStep('core');
+    }
+
     if (shouldAbort?.()) {
-      logger.warn('Aborted before Files');
+      return stop('Aborted after core object');
+    }
+
+    // Matched core records fill the ID map without counting as inserted or updated
+    const coreIdMap = idMaps[config.coreObject.objectApiName];
+    if ((!coreIdMap || coreIdMap.size === 0) && !config.dryRun) {
+      logger.warn('No core records were created or matched. Skipping related objects/activities/files.');
       return results;
     }
-    results.files = await seedFiles(config, idMaps, errors);
-  } else {
-    logger.log('\nStep 6/6: Files not selected — skipping');
+
+    // Step 2: Related objects — parents first, then lookup targets before the siblings pointing at them
+    const relatedNodes = flattenTree(config.coreObject.objectApiName, config.children);
+    if (stepDone('related')) {
+      logger.log('\nStep 2/8: Related objects already seeded — skipping');
+    } else if (relatedNodes.length > 0) {
+      logger.log(
+        `\nStep 2/8: Seeding ${relatedNodes.length} related object(s) across ${treeDepth(config.children)} level(s)`
+      );
+
+      const fieldsByObject = new Map<string, FieldInfo[]>();
+      for (const node of relatedNodes) {
+        const obj = node.config.objectApiName;
+        if (!fieldsByObject.has(obj)) fieldsByObject.set(obj, await getObjectFields(config.sourceConn, obj));
+      }
+      const { order, waves, deferredFields, deferred } = orderRelatedNodes(relatedNodes, fieldsByObject);
+      for (const edge of deferred) {
+        logger.warn(`Lookup cycle between related objects — ${describeDeferred(edge)} will be set after insert`);
+      }
+      // Sequential runs take one node at a time; parallel ones a wave of independent nodes
+      const concurrency = config.concurrency ?? DEFAULT_CONCURRENCY;
+      const groups = concurrency > 1 ? waves : order.map((node) => [node]);
+
+      for (const group of groups) {
+        if (shouldAbort?.()) {
+          return stop(`Aborted during related object seeding (level ${group[0].depth})`);
+        }
+        const pending = group.filter((node) => !objectDone('related', node.path));
+        if (pending.length === 0) continue;
+
+        const parallel = pending.length > 1 && concurrency > 1;
+        const nodeConfig = parallel ? { ...config, logger: concurrentLogger(logger) } : config;
+        if (parallel) {
+          logger.log(`  Seeding ${pending.map((n) => n.config.objectApiName).join(', ')} in parallel...`);
+        }
+
+        const firstResult = results.related.length;
+        await runPool(pending, concurrency, async (node) => {
+          if (shouldAbort?.()) return;
+
+          const parentIdMap = idMaps[node.parentObject];
+          if (!parentIdMap || parentIdMap.size === 0) {
+            logger.log(`  Skipping ${node.config.objectApiName} — no ${node.parentObject} records were seeded`);
+            completeObject('related', node.path);
+            return;
+          }
+
+          const relatedResult = await seedRelatedObject(
+            nodeConfig,
+            node.config.objectApiName,
+            node.config.lookupField,
+            [...parentIdMap.keys()],
+            idMaps,
+            errors,
+            node.config.externalIdField,
+            node.config.whereClause,
+            node.config.matchKey,
+            deferredFields.get(node.path),
+            deferredLookups
+          );
+          results.related.push({ ...relatedResult, parentObject: node.parentObject, depth: node.depth });
+          completeObject('related', node.path);
+        });
+
+        // Report in seeding order, not completion order
+        const position = (r: ObjectSeedResult): number =>
+          pending.findIndex((n) => n.config.objectApiName === r.objectApiName && n.parentObject === r.parentObject);
+        results.related.push(...results.related.splice(firstResult).sort((a, b) => position(a) - position(b)));
+
+        // Workers stop picking up nodes on abort — the last wave has no next iteration to notice
+        if (shouldAbort?.()) {
+          return stop(`Aborted during related object seeding (level ${group[0].depth})`);
+        }
+      }
+
+      await applyDeferredLookups(config, deferredLookups, idMaps, errors);
+      const unfinished = order.filter((node) => runState && !objectDone('related', node.path));
+      if (unfinished.length > 0) {
+        return stop(`Related objects not seeded: ${unfinished.map((n) => n.config.objectApiName).join(', ')}`);
+      }
+      completeStep('related');
+    } else {
+      logger.log('\nStep 2/8: No related objects selected — skipping');
+    }
+
+    // Step 3: Tasks
+    if (stepDone('tasks')) {
+      logger.log('\nStep 3/8: Tasks already seeded — skipping');
+    } else if (config.includeTasks) {
+      logger.log('\nStep 3/8: Seeding Tasks');
+      if (shouldAbort?.()) {
+        return stop('Aborted before Tasks');
+      }
+      results.tasks = await seedActivities(config, 'Task', idMaps, errors);
+      completeStep('tasks');
+    } else {
+      logger.log('\nStep 3/8: Tasks not selected — skipping');
+    }
+
+    // Step 4: Events
+    if (stepDone('events')) {
+      logger.log('\nStep 4/8: Events already seeded — skipping');
+    } else if (config.includeEvents) {
+      logger.log('\nStep 4/8: Seeding Events');
+      if (shouldAbort?.()) {
+        return stop('Aborted before Events');
+      }
+      results.events = await seedActivities(config, 'Event', idMaps, errors);
+      completeStep('events');
+    } else {
+      logger.log('\nStep 4/8: Events not selected — skipping');
+    }
+
+    // Step 5: Files
+    if (stepDone('files')) {
+      logger.log('\nStep 5/8: Files already seeded — skipping');
+    } else if (config.includeFiles) {
+      logger.log('\nStep 5/8: Seeding Files');
+      if (shouldAbort?.()) {
+        return stop('Aborted before Files');
+      }
+      results.files = await seedFiles(config, idMaps, errors);
+      completeStep('files');
+    } else {
+      logger.log('\nStep 5/8: Files not selected — skipping');
+    }
+
+    // Step 6: Attachments
+    if (stepDone('attachments')) {
+      logger.log('\nStep 6/8: Attachments already seeded — skipping');
+    } else if (config.includeAttachments) {
+      logger.log('\nStep 6/8: Seeding Attachments');
+      if (shouldAbort?.()) {
+        return stop('Aborted before Attachments');
+      }
+      results.attachments = await seedAttachments(config, idMaps, errors);
+      completeStep('attachments');
+    } else {
+      logger.log('\nStep 6/8: Attachments not selected — skipping');
+    }
+
+    // Step 7: Notes
+    if (stepDone('notes')) {
+      logger.log('\nStep 7/8: Notes already seeded — skipping');
+    } else if (config.includeNotes) {
+      logger.log('\nStep 7/8: Seeding Notes');
+      if (shouldAbort?.()) {
+        return stop('Aborted before Notes');
+      }
+      results.notes = await seedNotes(config, idMaps, errors);
+      completeStep('notes');
+    } else {
+      logger.log('\nStep 7/8: Notes not selected — skipping');
+    }
+
+    // Step 8: Chatter feed
+    if (stepDone('feed')) {
+      logger.log('\nStep 8/8: Feed already seeded — skipping');
+    } else if (config.includeFeed) {
+      logger.log('\nStep 8/8: Seeding Chatter feed');
+      if (shouldAbort?.()) {
+        return stop('Aborted before the feed');
+      }
+      results.feed = await seedFeed(config, idMaps, errors);
+      completeStep('feed');
+    } else {
+      logger.log('\nStep 8/8: Feed not selected — skipping');
+    }
+  } catch (err) {
+    // Network drop, expired session, etc. — keep everything committed so far
+    reportMappings();
+    checkpoint();
+    if (runState) logger.warn(`Run state saved to ${runFile!} — re-run with --resume ${runFile!} to continue`);
+    inputConfig.onRunFailed?.(results, err);
+    throw err;
+  }
+
+  reportMappings();
+  checkpoint();
+  if (runState) {
+    logger.log(`\nRun state saved to ${runFile!}`);
+    logger.log(`Rollback manifest saved to ${manifestPathFor(runFile!)}`);
   }
 
   return results;
@@ -0,0 +1,597 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { createReadStream, createWriteStream, existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { Connection } from '@salesforce/core';
+import {
+  SeederLogger,
+  SnapshotSource,
+  SourceDescribe,
+  SourceGlobalDescribe,
+  SourceQueryResult,
+  FieldInfo,
+  PersistedSeedConfig,
+  RelatedObjectConfig,
+  SnapshotManifest,
+  SnapshotObject,
+  DEFAULT_DEPENDENCY_DEPTH,
+  SNAPSHOT_VERSION,
+  SYSTEM_LOOKUP_OBJECTS,
+} from './types.js';
+import { queryAll, queryAllChunked, buildSelectFields, buildSeedQuery, inClause } from './query.js';
+import { getObjectFields, getInsertableFieldNames, getKeyPrefixMap, objectForId } from './schema.js';
+import { flattenTree } from './tree.js';
+import { openVersionData } from './files.js';
+import { RECORD_TYPE_SOQL } from './recordtypes.js';
+import { USER_SOQL } from './users.js';
+import { GROUP_SOQL } from './groups.js';
+
+// ---------------------------------------------------------------------------
+// Snapshot layout
+// ---------------------------------------------------------------------------
+//
+//   snapshot.json          manifest (SnapshotManifest)
+//   schema/global.json     describeGlobal subset — key prefixes, createable/queryable
+//   schema/<Object>.json   describe subset — fields and child relationships
+//   records/<Object>.json  exported records
+//   files/<ContentVersionId>  file binaries
+
+const MANIFEST_FILE = 'snapshot.json';
+const SCHEMA_DIR = 'schema';
+const RECORDS_DIR = 'records';
+const FILES_DIR = 'files';
+const GLOBAL_SCHEMA_FILE = 'global.json';
+
+// Read by runSeeder to translate RecordTypeId, owners and queues
+const REFERENCE_TABLES = [
+  { objectApiName: 'RecordType', soql: RECORD_TYPE_SOQL },
+  { objectApiName: 'User', soql: USER_SOQL },
+  { objectApiName: 'Group', soql: GROUP_SOQL },
+];
+
+// Matches the page size of a live org, so callers exercise queryMore the same way
+const QUERY_PAGE_SIZE = 2000;
+
+const LINK_FIELDS = 'Id, ContentDocumentId, LinkedEntityId, ShareType, Visibility';
+const VERSION_FIELDS =
+  'Id, ContentDocumentId, Title, PathOnClient, FileExtension, ContentSize, Description, IsLatestVersion, VersionNumber, ReasonForChange';
+
+// ---------------------------------------------------------------------------
+// Internal types
+// ---------------------------------------------------------------------------
+
+type SnapshotRecord = Record<string, unknown>;
+type RecordStore = Map<string, Map<string, SnapshotRecord>>;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// Changes whenever a createable field is added, removed or retyped
+export function schemaFingerprint(fields: FieldInfo[]): string {
+  const signature = fields
+    .filter((f) => f.createable)
+    .map((f) => `${f.name}:${f.type}`)
+    .sort()
+    .join('\n');
+  return createHash('sha256').update(signature).digest('hex');
+}
+
+function addRecords(store: RecordStore, objectApiName: string, records: SnapshotRecord[]): SnapshotRecord[] {
+  if (!store.has(objectApiName)) store.set(objectApiName, new Map());
+  const held = store.get(objectApiName)!;
+  const added: SnapshotRecord[] = [];
+  for (const rec of records) {
+    const { attributes, ...fields } = rec;
+    if (held.has(fields['Id'] as string)) continue;
+    held.set(fields['Id'] as string, fields);
+    added.push(fields);
+  }
+  return added;
+}
+
+function allIds(store: RecordStore): string[] {
+  return [...store.values()].flatMap((held) => [...held.keys()]);
+}
+
+function writeJson(filePath: string, data: unknown): void {
+  writeFileSync(filePath, JSON.stringify(data, null, 2));
+}
+
+// ---------------------------------------------------------------------------
+// exportSnapshot — query a record family and write it to disk
+// ---------------------------------------------------------------------------
+
+// Mirrors what runSeeder reads from the source: the core records, the
+// relationship tree, every lookup target up to dependencyDepth levels, the
+// selected activities and files, and the tables used to translate record
+// types, users and queues. Where clauses are applied here, so the snapshot
+// holds exactly the selected family.
+export async function exportSnapshot(
+  conn: Connection,
+  config: PersistedSeedConfig,
+  outputDir: string,
+  logger: SeederLogger,
+  dependencyDepth = DEFAULT_DEPENDENCY_DEPTH,
+  fileVersions = false
+): Promise<SnapshotManifest> {
+  if (existsSync(outputDir) && readdirSync(outputDir).length > 0) {
+    throw new Error(`Output directory ${outputDir} is not empty`);
+  }
+  for (const dir of [SCHEMA_DIR, RECORDS_DIR, FILES_DIR]) {
+    mkdirSync(join(outputDir, dir), { recursive: true });
+  }
+  if (config.includeAttachments || config.includeNotes) {
+    logger.warn('Snapshots do not capture classic Attachments or Notes — skipping them');
+  }
+  if (config.includeFeed) {
+    logger.warn('Snapshots do not capture the Chatter feed — skipping it');
+  }
+
+  const store: RecordStore = new Map();
+  const fieldCache = new Map<string, FieldInfo[]>();
+  const coreObjectApiName = config.coreObject.objectApiName;
+
+  // Describe once per object — the subset runSeeder reads is stored alongside the records
+  const fieldsFor = async (objectApiName: string): Promise<FieldInfo[]> => {
+    const cached = fieldCache.get(objectApiName);
+    if (cached) return cached;
+    const fields = await getObjectFields(conn, objectApiName);
+    const describe = await conn.describe(objectApiName);
+    const schema: SourceDescribe = {
+      name: describe.name,
+      fields: describe.fields.map((f) => ({
+        name: f.name,
+        label: f.label,
+        type: f.type,
+        createable: f.createable,
+        nillable: f.nillable,
+        externalId: f.externalId ?? false,
+        unique: f.unique ?? false,
+        referenceTo: f.referenceTo ?? [],
+        relationshipName: f.relationshipName ?? null,
+        defaultedOnCreate: f.defaultedOnCreate,
+        restrictedPicklist: f.restrictedPicklist,
+        picklistValues: (f.picklistValues ?? [])
+          .filter((p) => p.active)
+          .map((p) => ({ value: p.value, active: true, defaultValue: p.defaultValue })),
+      })),
+      childRelationships: describe.childRelationships.map((r) => ({
+        childSObject: r.childSObject,
+        field: r.field,
+        relationshipName: r.relationshipName ?? null,
+        cascadeDelete: r.cascadeDelete ?? false,
+      })),
+    };
+    writeJson(join(outputDir, SCHEMA_DIR, `${objectApiName}.json`), schema);
+    fieldCache.set(objectApiName, fields);
+    return fields;
+  };
+  const selectFor = async (objectApiName: string, additional?: string[]): Promise<string> =>
+    buildSelectFields(getInsertableFieldNames(await fieldsFor(objectApiName)), additional);
+
+  // Key prefixes resolve every lookup value (polymorphic or not) to its object
+  const globalDescribe = await conn.describeGlobal();
+  const globalSchema: SourceGlobalDescribe = {
+    sobjects: globalDescribe.sobjects.map((o) => ({
+      name: o.name,
+      label: o.label,
+      custom: o.custom,
+      keyPrefix: o.keyPrefix ?? null,
+      queryable: o.queryable,
+      createable: o.createable,
+    })),
+  };
+  writeJson(join(outputDir, SCHEMA_DIR, GLOBAL_SCHEMA_FILE), globalSchema);
+  const keyPrefixes = await getKeyPrefixMap(conn);
+
+  // Core records
+  logger.startSpinner(`Exporting ${coreObjectApiName}...`);
+  const coreSoql = buildSeedQuery(await selectFor(coreObjectApiName), coreObjectApiName, config.whereClause, config.recordCount);
+  const coreRecords = addRecords(store, coreObjectApiName, await queryAll(conn, coreSoql));
+  if (coreRecords.length === 0) {
+    logger.stopSpinnerFail('No records found');
+    throw new Error(`No ${coreObjectApiName} records matched — nothing to export`);
+  }
+  logger.stopSpinner(`${coreObjectApiName}: ${coreRecords.length} record(s)`);
+
+  // Lookup targets, level by level — self-referenced parents included
+  const pullReferences = async (records: SnapshotRecord[], objectApiName: string): Promise<void> => {
+    let frontier = new Map([[objectApiName, records]]);
+
+    for (let depth = 1; depth <= dependencyDepth && frontier.size > 0; depth++) {
+      const wanted = new Map<string, Set<string>>();
+      for (const [obj, recs] of frontier) {
+        const refFields = (await fieldsFor(obj)).filter((f) => f.createable && f.type === 'reference');
+        for (const rec of recs) {
+          for (const field of refFields) {
+            const val = rec[field.name] as string | null;
+            const target = val ? objectForId(keyPrefixes, val) : null;
+            if (!val || !target || SYSTEM_LOOKUP_OBJECTS.has(target) || store.get(target)?.has(val)) continue;
+            if (!wanted.has(target)) wanted.set(target, new Set());
+            wanted.get(target)!.add(val);
+          }
+        }
+      }
+
+      const next = new Map<string, SnapshotRecord[]>();
+      for (const [target, ids] of wanted) {
+        logger.startSpinner(`Exporting ${ids.size} referenced ${target} record(s) (level ${depth})...`);
+        try {
+          const select = await selectFor(target);
+          const fetched = await queryAllChunked(
+            conn,
+            [...ids],
+            (chunk) => `SELECT ${select} FROM ${target} WHERE Id IN (${inClause(chunk)})`
+          );
+          next.set(target, addRecords(store, target, fetched));
+          logger.stopSpinner(`${target}: ${fetched.length} record(s)`);
+        } catch (err) {
+          logger.stopSpinnerFail(`${target}: failed to export — ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+      frontier = next;
+    }
+  };
+
+  await pullReferences(coreRecords, coreObjectApiName);
+
+  // Relationship tree — children of every held parent record, filtered as configured
+  for (const node of flattenTree(coreObjectApiName, config.children)) {
+    const objectApiName = node.config.objectApiName;
+    const parentIds = [...(store.get(node.parentObject)?.keys() ?? [])];
+    if (parentIds.length === 0) continue;
+
+    logger.startSpinner(`Exporting ${objectApiName}...`);
+    const select = await selectFor(objectApiName);
+    const filter = node.config.whereClause ? ` AND (${node.config.whereClause})` : '';
+    const records = await queryAllChunked(
+      conn,
+      parentIds,
+      (chunk) => `${buildSeedQuery(select, objectApiName)} WHERE ${node.config.lookupField} IN (${inClause(chunk)})${filter}`
+    );
+    const added = addRecords(store, objectApiName, records);
+    logger.stopSpinner(`${objectApiName}: ${records.length} record(s)`);
+    await pullReferences(added, objectApiName);
+  }
+
+  // Activities linked to anything exported so far
+  const activityTypes = [
+    ...(config.includeTasks ? ['Task'] : []),
+    ...(config.includeEvents ? ['Event'] : []),
+  ];
+  const familyIds = allIds(store);
+  for (const activityType of activityTypes) {
+    logger.startSpinner(`Exporting ${activityType}s...`);
+    // Recurring series are recreated from their master on import
+    const activityFields = await fieldsFor(activityType);
+    const recurrence = ['IsRecurrence', 'RecurrenceActivityId'].filter((name) => activityFields.some((f) => f.name === name));
+    const select = await selectFor(activityType, ['WhatId', 'WhoId', ...recurrence]);
+    let count = 0;
+    for (const lookup of ['WhatId', 'WhoId']) {
+      const records = await queryAllChunked(
+        conn,
+        familyIds,
+        (chunk) => `SELECT ${select} FROM ${activityType} WHERE ${lookup} IN (${inClause(chunk)})`
+      );
+      count += addRecords(store, activityType, records).length;
+    }
+    logger.stopSpinner(`${activityType}: ${count} record(s)`);
+
+    // Shared contacts and invitees
+    const relationObject = `${activityType}Relation`;
+    const activityIds = [...(store.get(activityType)?.keys() ?? [])];
+    try {
+      const relationSelect = await selectFor(relationObject, [`${activityType}Id`, 'RelationId', 'IsWhat']);
+      const relations = await queryAllChunked(
+        conn,
+        activityIds,
+        (chunk) => `SELECT ${relationSelect} FROM ${relationObject} WHERE ${activityType}Id IN (${inClause(chunk)})`
+      );
+      addRecords(store, relationObject, relations);
+    } catch (err) {
+      logger.warn(`Could not export ${relationObject} — skipping it (${err instanceof Error ? err.message : String(err)})`);
+    }
+  }
+
+  // Files — links, latest (or all) versions and their binaries
+  let files = 0;
+  if (config.includeFiles) {
+    logger.startSpinner('Exporting files...');
+    const links = await queryAllChunked(
+      conn,
+      allIds(store),
+      (chunk) => `SELECT ${LINK_FIELDS} FROM ContentDocumentLink WHERE LinkedEntityId IN (${inClause(chunk)})`
+    );
+    const contentDocIds = [...new Set(links.map((l) => l['ContentDocumentId'] as string))];
+    const versions = await queryAllChunked(
+      conn,
+      contentDocIds,
+      (chunk) =>
+        `SELECT ${VERSION_FIELDS} FROM ContentVersion WHERE ContentDocumentId IN (${inClause(chunk)})${fileVersions ? '' : ' AND IsLatestVersion = true'}`
+    );
+
+    for (const cv of versions) {
+      const cvId = cv['Id'] as string;
+      logger.updateSpinner(`Downloading file ${files + 1}/${versions.length}: ${cv['Title'] as string}`);
+      // Streamed to disk so large files are never held in memory
+      await pipeline(await openVersionData(conn, cvId), createWriteStream(join(outputDir, FILES_DIR, cvId)));
+      files++;
+    }
+
+    addRecords(store, 'ContentDocumentLink', links);
+    addRecords(store, 'ContentVersion', versions);
+    logger.stopSpinner(`Files: ${files} file(s) across ${links.length} link(s)`);
+  }
+
+  // Reference tables — without them the import strips record types, owners and queues
+  const referenceObjects = new Set<string>();
+  for (const table of REFERENCE_TABLES) {
+    try {
+      addRecords(store, table.objectApiName, await queryAll(conn, table.soql));
+      referenceObjects.add(table.objectApiName);
+    } catch (err) {
+      logger.warn(`Could not export ${table.objectApiName} — the import will strip it (${err instanceof Error ? err.message : String(err)})`);
+    }
+  }
+
+  const objects: SnapshotObject[] = [];
+  for (const [objectApiName, held] of store) {
+    writeJson(join(outputDir, RECORDS_DIR, `${objectApiName}.json`), [...held.values()]);
+    const fields = fieldCache.get(objectApiName);
+    objects.push({
+      objectApiName,
+      records: held.size,
+      fingerprint: fields && !referenceObjects.has(objectApiName) ? schemaFingerprint(fields) : null,
+    });
+  }
+
+  const manifest: SnapshotManifest = {
+    version: SNAPSHOT_VERSION,
+    snapshotId: randomUUID(),
+    createdAt: new Date().toISOString(),
+    sourceInstanceUrl: conn.instanceUrl,
+    config: { ...config, includeAttachments: false, includeNotes: false, includeFeed: false },
+    coreSourceIds: coreRecords.map((r) => r['Id'] as string),
+    dependencyDepth,
+    objects,
+    files,
+  };
+  writeJson(join(outputDir, MANIFEST_FILE), manifest);
+
+  return manifest;
+}
+
+// ---------------------------------------------------------------------------
+// loadSnapshot — read and validate a snapshot manifest
+// ---------------------------------------------------------------------------
+
+export function loadSnapshot(snapshotDir: string): SnapshotManifest {
+  const manifestPath = join(snapshotDir, MANIFEST_FILE);
+  if (!existsSync(manifestPath)) {
+    throw new Error(`Snapshot not found: ${snapshotDir} has no ${MANIFEST_FILE}`);
+  }
+
+  let manifest: SnapshotManifest;
+  try {
+    manifest = JSON.parse(readFileSync(manifestPath, 'utf8')) as SnapshotManifest;
+  } catch (err) {
+    throw new Error(`Snapshot ${manifestPath} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  if (manifest.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Snapshot ${snapshotDir} has unsupported version ${String(manifest.version)} (expected ${SNAPSHOT_VERSION})`);
+  }
+  if (!manifest.config?.coreObject?.objectApiName || !manifest.coreSourceIds || !manifest.objects) {
+    throw new Error(`Snapshot ${snapshotDir} is missing required sections`);
+  }
+
+  return manifest;
+}
+
+// ---------------------------------------------------------------------------
+// Snapshot queries — the SOQL subset runSeeder issues against its source
+// ---------------------------------------------------------------------------
+
+// Splits on AND outside quotes and parentheses
+function splitConditions(where: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let i = 0; i < where.length; i++) {
+    const ch = where[i];
+    if (quoted) {
+      if (ch === '\\') i++;
+      else if (ch === "'") quoted = false;
+    } else if (ch === "'") {
+      quoted = true;
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')') {
+      depth--;
+    } else if (depth === 0 && /^ AND /i.test(where.slice(i, i + 5))) {
+      parts.push(where.slice(start, i));
+      start = i + 5;
+      i += 4;
+    }
+  }
+  parts.push(where.slice(start));
+  return parts.map((p) => p.trim());
+}
+
+// Strips parentheses that wrap the whole condition: "(A = 'x')" → "A = 'x'"
+function unwrap(condition: string): string {
+  let current = condition;
+  while (current.startsWith('(') && current.endsWith(')')) {
+    let depth = 0;
+    let closesEarly = false;
+    for (let i = 0; i < current.length - 1; i++) {
+      if (current[i] === '(') depth++;
+      if (current[i] === ')' && --depth === 0) closesEarly = true;
+    }
+    if (closesEarly) break;
+    current = current.slice(1, -1).trim();
+  }
+  return current;
+}
+
+function parseLiterals(list: string): Set<string> {
+  const values = new Set<string>();
+  for (const match of list.matchAll(/'((?:[^'\\]|\\.)*)'/g)) {
+    values.add(match[1].replace(/\\(.)/g, '$1'));
+  }
+  return values;
+}
+
+function compileCondition(condition: string): (rec: SnapshotRecord) => boolean {
+  const inMatch = /^(\w+) IN \((.*)\)$/i.exec(condition);
+  if (inMatch) {
+    const values = parseLiterals(inMatch[2]);
+    return (rec) => rec[inMatch[1]] !== null && rec[inMatch[1]] !== undefined && values.has(String(rec[inMatch[1]]));
+  }
+  const stringMatch = /^(\w+) = '((?:[^'\\]|\\.)*)'$/.exec(condition);
+  if (stringMatch) {
+    const value = stringMatch[2].replace(/\\(.)/g, '$1');
+    return (rec) => rec[stringMatch[1]] === value;
+  }
+  const booleanMatch = /^(\w+) = (true|false)$/i.exec(condition);
+  if (booleanMatch) {
+    const value = booleanMatch[2].toLowerCase() === 'true';
+    return (rec) => rec[booleanMatch[1]] === value;
+  }
+  throw new Error(`Snapshot sources cannot evaluate "${condition}"`);
+}
+
+function evaluateQuery(soql: string, load: (objectApiName: string) => SnapshotRecord[]): SnapshotRecord[] {
+  const normalized = soql.replace(/\s+/g, ' ').trim();
+  const match = /^SELECT (.+?) FROM (\w+)(?: WHERE (.+?))?(?: LIMIT (\d+))?$/i.exec(normalized);
+  if (!match) {
+    throw new Error(`Snapshot sources cannot evaluate "${normalized}"`);
+  }
+
+  const [, select, objectApiName, where, limit] = match;
+  const fields = select.split(',').map((f) => f.trim());
+  const conditions = where ? splitConditions(where).map((c) => compileCondition(unwrap(c))) : [];
+
+  let records = load(objectApiName).filter((rec) => conditions.every((test) => test(rec)));
+  if (limit) records = records.slice(0, parseInt(limit, 10));
+
+  return records.map((rec) => Object.fromEntries(fields.map((f) => [f, rec[f] ?? null])));
+}
+
+// ---------------------------------------------------------------------------
+// openSnapshotSource — a read-only SnapshotSource in place of the source org
+// ---------------------------------------------------------------------------
+
+// Serves the RecordSource calls runSeeder makes on sourceConn plus
+// VersionDataReader, so the normal seeding path — including remapping and
+// resume — runs unchanged against a snapshot.
+export function openSnapshotSource(snapshotDir: string, manifest: SnapshotManifest): SnapshotSource {
+  const records = new Map<string, SnapshotRecord[]>();
+  const readJson = (filePath: string): unknown => JSON.parse(readFileSync(filePath, 'utf8'));
+
+  const load = (objectApiName: string): SnapshotRecord[] => {
+    let held = records.get(objectApiName);
+    if (!held) {
+      const filePath = join(snapshotDir, RECORDS_DIR, `${objectApiName}.json`);
+      held = existsSync(filePath) ? (readJson(filePath) as SnapshotRecord[]) : [];
+      records.set(objectApiName, held);
+    }
+    return held;
+  };
+
+  const fileFor = (contentVersionId: string): string => {
+    const filePath = join(snapshotDir, FILES_DIR, contentVersionId);
+    if (!existsSync(filePath)) {
+      throw new Error(`File ${contentVersionId} is not in snapshot ${manifest.snapshotId}`);
+    }
+    return filePath;
+  };
+
+  // Records past the first page, keyed by the locator handed to queryMore
+  const pending = new Map<string, { records: SnapshotRecord[]; totalSize: number }>();
+  let nextLocator = 0;
+  const page = (records: SnapshotRecord[], totalSize: number): SourceQueryResult => {
+    if (records.length <= QUERY_PAGE_SIZE) return { done: true, totalSize, records };
+    const locator = `snapshot-query-${++nextLocator}`;
+    pending.set(locator, { records: records.slice(QUERY_PAGE_SIZE), totalSize });
+    return { done: false, totalSize, nextRecordsUrl: locator, records: records.slice(0, QUERY_PAGE_SIZE) };
+  };
+
+  return {
+    instanceUrl: `snapshot://${manifest.snapshotId}`,
+    exportedFrom: manifest.sourceInstanceUrl,
+    describe: async (objectApiName: string): Promise<SourceDescribe> => {
+      const filePath = join(snapshotDir, SCHEMA_DIR, `${objectApiName}.json`);
+      if (!existsSync(filePath)) {
+        throw new Error(`${objectApiName} is not in snapshot ${manifest.snapshotId}`);
+      }
+      return readJson(filePath) as SourceDescribe;
+    },
+    describeGlobal: async (): Promise<SourceGlobalDescribe> =>
+      readJson(join(snapshotDir, SCHEMA_DIR, GLOBAL_SCHEMA_FILE)) as SourceGlobalDescribe,
+    query: async (soql: string): Promise<SourceQueryResult> => {
+      const records = evaluateQuery(soql, load);
+      return page(records, records.length);
+    },
+    queryMore: async (locator: string): Promise<SourceQueryResult> => {
+      const rest = pending.get(locator);
+      if (!rest) throw new Error(`Unknown snapshot query locator ${locator}`);
+      pending.delete(locator);
+      return page(rest.records, rest.totalSize);
+    },
+    readVersionData: async (contentVersionId: string): Promise<Buffer> => readFileSync(fileFor(contentVersionId)),
+    streamVersionData: (contentVersionId: string): Readable => createReadStream(fileFor(contentVersionId)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// snapshotSeedConfig — the exported selection, replayed exactly
+// ---------------------------------------------------------------------------
+
+// Filters were applied at export time; the core query is pinned to the
+// exported IDs so LIMIT and where clauses are never re-evaluated.
+export function snapshotSeedConfig(manifest: SnapshotManifest): PersistedSeedConfig {
+  const withoutFilters = (children: RelatedObjectConfig[]): RelatedObjectConfig[] =>
+    children.map((child) => ({ ...child, whereClause: undefined, children: withoutFilters(child.children) }));
+
+  return {
+    ...manifest.config,
+    children: withoutFilters(manifest.config.children),
+    recordCount: 'All',
+    whereClause: `Id IN (${inClause(manifest.coreSourceIds)})`,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// compareSnapshotSchema — warn where the target has drifted from the export
+// ---------------------------------------------------------------------------
+
+export async function compareSnapshotSchema(
+  snapshotConn: SnapshotSource,
+  targetConn: Connection,
+  manifest: SnapshotManifest,
+  logger: SeederLogger
+): Promise<void> {
+  for (const entry of manifest.objects) {
+    if (!entry.fingerprint) continue;
+
+    let targetFields: FieldInfo[];
+    try {
+      targetFields = await getObjectFields(targetConn, entry.objectApiName);
+    } catch {
+      logger.warn(`${entry.objectApiName} does not exist in the target org — its ${entry.records} record(s) cannot be imported`);
+      continue;
+    }
+    if (schemaFingerprint(targetFields) === entry.fingerprint) continue;
+
+    const targetCreateable = new Set(targetFields.filter((f) => f.createable).map((f) => f.name));
+    const snapshotFields = await getObjectFields(snapshotConn, entry.objectApiName);
+    const missing = getInsertableFieldNames(snapshotFields).filter((f) => !targetCreateable.has(f));
+    if (missing.length > 0) {
+      logger.warn(`${entry.objectApiName}: target schema differs from the snapshot — not loading ${missing.join(', ')}`);
+    }
+  }
+}
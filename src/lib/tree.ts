@@ -0,0 +1,194 @@
+import { Connection } from '@salesforce/core';
+import {
+  DependencyEdge,
+  FieldInfo,
+  RelatedObjectConfig,
+  RelatedObjectNode,
+  RelatedObjectOrder,
+  MAX_RELATIONSHIP_DEPTH,
+} from './types.js';
+import { getChildRelationships, getObjectFields } from './schema.js';
+import { orderDependencies } from './dependencies.js';
+
+// ---------------------------------------------------------------------------
+// flattenTree — breadth-first walk so every parent is seeded before its children
+// ---------------------------------------------------------------------------
+
+export function flattenTree(
+  coreObjectApiName: string,
+  children: RelatedObjectConfig[]
+): RelatedObjectNode[] {
+  const nodes: RelatedObjectNode[] = [];
+  let frontier = children.map((config) => ({
+    config,
+    parentObject: coreObjectApiName,
+    depth: 1,
+    path: `${coreObjectApiName}/${config.objectApiName}`,
+  }));
+
+  while (frontier.length > 0) {
+    nodes.push(...frontier);
+    frontier = frontier.flatMap((node) =>
+      node.config.children.map((config) => ({
+        config,
+        parentObject: node.config.objectApiName,
+        depth: node.depth + 1,
+        path: `${node.path}/${config.objectApiName}`,
+      }))
+    );
+  }
+
+  return nodes;
+}
+
+// ---------------------------------------------------------------------------
+// orderRelatedNodes — seed lookup targets before the siblings that point at them
+// ---------------------------------------------------------------------------
+
+// Every node waits for its parent node and for each other node of an object
+// one of its lookups can point at (e.g. a custom child of Account with a
+// Contact lookup waits for Contact). Lookups closing a cycle are deferred; the
+// parent lookup never is. Self-references are handled per object and lookups
+// to the core object are always resolvable, so neither adds an edge. Waves
+// also keep two nodes of the same object apart — they share an ID map.
+export function orderRelatedNodes(
+  nodes: RelatedObjectNode[],
+  fieldsByObject: Map<string, FieldInfo[]>
+): RelatedObjectOrder {
+  const byPath = new Map(nodes.map((node) => [node.path, node]));
+  const edges: DependencyEdge[] = [];
+
+  for (const node of nodes) {
+    const objectApiName = node.config.objectApiName;
+    const parentPath = node.path.slice(0, node.path.lastIndexOf('/'));
+    if (byPath.has(parentPath)) {
+      edges.push({ fromObject: node.path, toObject: parentPath, field: node.config.lookupField, nillable: false, fixed: true });
+    }
+
+    for (const field of fieldsByObject.get(objectApiName) ?? []) {
+      if (!field.createable || field.type !== 'reference' || field.name === node.config.lookupField) continue;
+      if (field.referenceTo.includes(objectApiName)) continue;
+
+      for (const other of nodes) {
+        if (other.path !== node.path && field.referenceTo.includes(other.config.objectApiName)) {
+          edges.push({ fromObject: node.path, toObject: other.path, field: field.name, nillable: field.nillable });
+        }
+      }
+    }
+  }
+
+  const { order, deferred } = orderDependencies([...byPath.keys()], edges);
+
+  const broken = new Set(deferred);
+  const waveOf = new Map<string, number>();
+  for (const [index, path] of order.entries()) {
+    const waits = edges.filter((e) => e.fromObject === path && !broken.has(e)).map((e) => e.toObject);
+    const objectApiName = byPath.get(path)!.config.objectApiName;
+    waits.push(...order.slice(0, index).filter((p) => byPath.get(p)!.config.objectApiName === objectApiName));
+    waveOf.set(path, Math.max(0, ...waits.map((p) => (waveOf.get(p) ?? -1) + 1)));
+  }
+  const waves: RelatedObjectNode[][] = [];
+  for (const path of order) {
+    const wave = waveOf.get(path)!;
+    (waves[wave] ??= []).push(byPath.get(path)!);
+  }
+
+  const deferredFields = new Map<string, Set<string>>();
+  for (const edge of deferred) {
+    if (!deferredFields.has(edge.fromObject)) deferredFields.set(edge.fromObject, new Set());
+    deferredFields.get(edge.fromObject)!.add(edge.field);
+  }
+
+  return {
+    order: order.map((path) => byPath.get(path)!),
+    waves,
+    deferredFields,
+    deferred: deferred.map((edge) => ({
+      ...edge,
+      fromObject: byPath.get(edge.fromObject)!.config.objectApiName,
+      toObject: byPath.get(edge.toObject)!.config.objectApiName,
+    })),
+  };
+}
+
+export function treeDepth(children: RelatedObjectConfig[]): number {
+  if (children.length === 0) return 0;
+  return 1 + Math.max(...children.map((c) => treeDepth(c.children)));
+}
+
+// ---------------------------------------------------------------------------
+// validateTree — reject cycles and runaway depth before anything is queried
+// ---------------------------------------------------------------------------
+
+export function validateTree(coreObjectApiName: string, children: RelatedObjectConfig[]): void {
+  const walk = (nodes: RelatedObjectConfig[], ancestors: string[]): void => {
+    for (const node of nodes) {
+      if (ancestors.includes(node.objectApiName)) {
+        throw new Error(
+          `Relationship cycle: ${[...ancestors, node.objectApiName].join(' → ')}`
+        );
+      }
+      if (ancestors.length >= MAX_RELATIONSHIP_DEPTH) {
+        throw new Error(
+          `Relationship tree is deeper than ${MAX_RELATIONSHIP_DEPTH} levels at ${[...ancestors, node.objectApiName].join(' → ')}`
+        );
+      }
+      walk(node.children, [...ancestors, node.objectApiName]);
+    }
+  };
+  walk(children, [coreObjectApiName]);
+}
+
+// ---------------------------------------------------------------------------
+// resolveLookupField — the field on a child that points at its parent
+// ---------------------------------------------------------------------------
+
+export async function resolveLookupField(
+  conn: Connection,
+  parentObjectApiName: string,
+  childObjectApiName: string
+): Promise<string | null> {
+  const childRels = await getChildRelationships(conn, parentObjectApiName);
+  const rel = childRels.find((r) => r.childSObject === childObjectApiName);
+  if (rel) return rel.field;
+
+  // Fall back to describing the child to find a lookup to the parent
+  const childFields = await getObjectFields(conn, childObjectApiName);
+  const lookupField = childFields.find(
+    (f) => f.referenceTo.includes(parentObjectApiName) && f.createable
+  );
+  return lookupField?.name ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// addRelationshipPath — merge "Opportunity/Quote/QuoteLineItem" into a tree
+// ---------------------------------------------------------------------------
+
+export async function addRelationshipPath(
+  conn: Connection,
+  coreObjectApiName: string,
+  tree: RelatedObjectConfig[],
+  path: string
+): Promise<string | null> {
+  const segments = path.split('/').map((s) => s.trim()).filter(Boolean);
+  let level = tree;
+  let parentObject = coreObjectApiName;
+
+  for (const segment of segments) {
+    let node = level.find((n) => n.objectApiName === segment);
+
+    if (!node) {
+      const lookupField = await resolveLookupField(conn, parentObject, segment);
+      if (!lookupField) {
+        return `Could not find lookup from ${segment} to ${parentObject}`;
+      }
+      node = { objectApiName: segment, lookupField, children: [] };
+      level.push(node);
+    }
+
+    level = node.children;
+    parentObject = segment;
+  }
+
+  return null;
+}
@@ -1,3 +1,4 @@
+import { Readable } from 'node:stream';
 import { Connection } from '@salesforce/core';
 
 // ---------------------------------------------------------------------------
@@ -34,6 +35,10 @@ export interface FieldInfo {
   unique: boolean;
   referenceTo: string[];
   relationshipName: string | null;
+  defaultedOnCreate: boolean;
+  restrictedPicklist: boolean;
+  picklistValues: string[];  // active values only
+  defaultPicklistValue: string | null;
 }
 
 export interface ChildRelationship {
@@ -43,42 +48,263 @@ export interface ChildRelationship {
   cascadeDelete: boolean;
 }
 
+// ---------------------------------------------------------------------------
+// Record source — the calls made on the side records are copied FROM
+// ---------------------------------------------------------------------------
+
+// Only the describe properties the seeder reads; a snapshot stores exactly these
+export interface SourceFieldDescribe {
+  name: string;
+  label: string;
+  type: string;
+  createable: boolean;
+  nillable: boolean;
+  externalId?: boolean;
+  unique?: boolean;
+  referenceTo?: string[] | null;
+  relationshipName?: string | null;
+  defaultedOnCreate?: boolean;
+  restrictedPicklist?: boolean;
+  picklistValues?: Array<{ value: string; active: boolean; defaultValue: boolean }> | null;
+}
+
+export interface SourceDescribe {
+  name: string;
+  fields: SourceFieldDescribe[];
+  childRelationships: Array<{
+    childSObject: string;
+    field: string | null;
+    relationshipName?: string | null;
+    cascadeDelete?: boolean;
+  }>;
+}
+
+export interface SourceGlobalDescribe {
+  sobjects: Array<{
+    name: string;
+    label: string;
+    custom: boolean;
+    keyPrefix?: string | null;
+    queryable: boolean;
+    createable: boolean;
+  }>;
+}
+
+export interface SourceQueryResult {
+  done: boolean;
+  totalSize: number;
+  nextRecordsUrl?: string;
+  records: Array<Record<string, unknown>>;
+}
+
+// A live Connection satisfies this as-is; openSnapshotSource serves it from disk
+export interface RecordSource {
+  readonly instanceUrl: string;
+  describe(objectApiName: string): PromiseLike<SourceDescribe>;
+  describeGlobal(): PromiseLike<SourceGlobalDescribe>;
+  query(soql: string): PromiseLike<SourceQueryResult>;
+  queryMore(locator: string): PromiseLike<SourceQueryResult>;
+}
+
 // ---------------------------------------------------------------------------
 // User configuration types
 // ---------------------------------------------------------------------------
 
-export interface GrandchildObjectConfig {
+// A node in the relationship tree: an object seeded through a lookup to its parent
+export interface RelatedObjectConfig {
   objectApiName: string;
   lookupField: string;
-  parentChildObject: string;
   externalIdField?: string;
+  matchKey?: MatchKeyConfig;
+  whereClause?: string;
+  children: RelatedObjectConfig[];
 }
 
-export interface ChildObjectConfig {
-  objectApiName: string;
-  lookupField: string;
-  externalIdField?: string;
-  grandchildren: GrandchildObjectConfig[];
+// Flattened tree node with its position (see flattenTree)
+export interface RelatedObjectNode {
+  config: RelatedObjectConfig;
+  parentObject: string;
+  depth: number;
+  path: string;
+}
+
+export interface RelatedObjectOrder {
+  order: RelatedObjectNode[];
+  // The same nodes grouped so no node shares a wave with anything it waits for
+  waves: RelatedObjectNode[][];
+  // Node path → lookups left blank at insert, set once every related object is seeded
+  deferredFields: Map<string, Set<string>>;
+  // The same lookups by object name, for reporting
+  deferred: DependencyEdge[];
 }
 
 export interface ObjectSeedConfig {
   objectApiName: string;
   externalIdField?: string;
+  matchKey?: MatchKeyConfig;
+}
+
+// Composite natural key used to find existing target records instead of
+// inserting duplicates (match mode) — an alternative to externalIdField
+export interface MatchKeyConfig {
+  fields: string[];
+  updateMatched: boolean;
 }
 
 export interface SeedConfig {
-  sourceConn: Connection;
+  sourceConn: SeedSource;
   targetConn: Connection;
   coreObject: ObjectSeedConfig;
-  children: ChildObjectConfig[];
+  children: RelatedObjectConfig[];
   includeTasks: boolean;
   includeEvents: boolean;
   includeFiles: boolean;
+  includeAttachments?: boolean;
+  includeNotes?: boolean;
+  convertLegacyFiles?: boolean;  // Attachments → ContentVersion, Notes → ContentNote
+  includeFeed?: boolean;
   recordCount: number | 'All';
   whereClause?: string;
   dryRun: boolean;
   logger: SeederLogger;
   shouldAbort?: (() => boolean) | null;
+  runFile?: string;
+  resumeState?: RunState;
+  onBatchCommitted?: BatchCommitHandler;
+  onRecordsMatched?: RecordsMatchedHandler;
+  onRecordsFailed?: RecordsFailedHandler;
+  onRunFailed?: RunFailedHandler;
+  forceBulk?: boolean;
+  bulkThreshold?: number;
+  masking?: MaskingRules;
+  maskingSalt?: string;
+  dependencyDepth?: number;
+  pullPolymorphicDependencies?: boolean;
+  pullSelfReferences?: boolean;
+  concurrency?: number;
+  preserveFileSharing?: boolean;
+  fileStreamThreshold?: number;  // bytes
+  includeFileVersions?: boolean;
+  keyPrefixes?: KeyPrefixMap;
+  recordTypeFallback?: RecordTypeFallback;
+  recordTypeMapping?: RecordTypeMapping;
+  userMappingOptions?: UserMappingOptions;
+  userMapping?: UserMapping;
+  groupMapping?: GroupMapping;
+  picklistMappingOptions?: PicklistMappingOptions;
+  picklistMapping?: PicklistMapping;
+}
+
+// Subset of SeedConfig that is persisted to disk and replayed on resume
+export type PersistedSeedConfig = Pick<
+  SeedConfig,
+  | 'coreObject'
+  | 'children'
+  | 'includeTasks'
+  | 'includeEvents'
+  | 'includeFiles'
+  | 'includeAttachments'
+  | 'includeNotes'
+  | 'convertLegacyFiles'
+  | 'includeFeed'
+  | 'recordCount'
+  | 'whereClause'
+  | 'masking'
+>;
+
+// Flags that shape how a run executes — persisted so a resumed run keeps them
+export type ExecutionOptions = Pick<
+  SeedConfig,
+  | 'forceBulk'
+  | 'bulkThreshold'
+  | 'concurrency'
+  | 'preserveFileSharing'
+  | 'includeFileVersions'
+  | 'fileStreamThreshold'
+  | 'dependencyDepth'
+  | 'pullPolymorphicDependencies'
+  | 'pullSelfReferences'
+  | 'recordTypeFallback'
+  | 'userMappingOptions'
+  | 'picklistMappingOptions'
+>;
+
+export type BatchCommitHandler = (objectApiName: string, committed: number, total: number) => void;
+
+// Called with target IDs of pre-existing records matched (not created) by a run
+export type RecordsMatchedHandler = (objectApiName: string, targetIds: string[]) => void;
+
+// Called with the records of a batch that the target org rejected
+export type RecordsFailedHandler = (failed: FailedRecord[]) => void;
+
+// Called with the results collected so far when a run throws partway
+export type RunFailedHandler = (results: SeedResults, err: unknown) => void;
+
+// Options threaded from SeedConfig into batchInsert / batchUpsert
+export type BatchOptions = Pick<
+  SeedConfig,
+  'onBatchCommitted' | 'onRecordsMatched' | 'onRecordsFailed' | 'forceBulk' | 'bulkThreshold' | 'resumeState'
+>;
+
+// ---------------------------------------------------------------------------
+// Masking — per object/field anonymization applied while preparing records
+// ---------------------------------------------------------------------------
+
+export const MASK_STRATEGIES = [
+  'fakeName',
+  'fakeFirstName',
+  'fakeLastName',
+  'fakeCompany',
+  'hashEmail',
+  'randomPhone',
+  'redact',
+  'constant',
+  'null',
+] as const;
+
+export type MaskStrategy = (typeof MASK_STRATEGIES)[number];
+
+export interface MaskRule {
+  strategy: MaskStrategy;
+  value?: string;
+}
+
+// objectApiName ('*' for every object) → fieldName → rule
+export interface MaskingRules {
+  [objectApiName: string]: { [fieldName: string]: MaskRule | MaskStrategy };
+}
+
+// ---------------------------------------------------------------------------
+// Seed plan — declarative, file-based description of a SeedConfig
+// ---------------------------------------------------------------------------
+
+export interface SeedPlanNode {
+  object: string;
+  lookupField?: string;
+  upsertField?: string;
+  matchOn?: string[];
+  updateMatched?: boolean;
+  where?: string;
+  children?: SeedPlanNode[];
+}
+
+export interface SeedPlan {
+  version: number;
+  object: string;
+  upsertField?: string;
+  matchOn?: string[];
+  updateMatched?: boolean;
+  count?: number | 'All';
+  where?: string;
+  children?: SeedPlanNode[];
+  includeTasks?: boolean;
+  includeEvents?: boolean;
+  includeFiles?: boolean;
+  includeAttachments?: boolean;
+  includeNotes?: boolean;
+  convertLegacyFiles?: boolean;
+  includeFeed?: boolean;
+  masking?: MaskingRules;
 }
 
 // ---------------------------------------------------------------------------
@@ -94,9 +320,13 @@ export interface SeedError {
 
 export interface ObjectSeedResult {
   objectApiName: string;
+  parentObject?: string;
+  depth?: number;
   queried: number;
   inserted: number;
   updated: number;
+  // Existing target records linked by match key (updated ones are also counted in updated)
+  matched?: number;
   failed: number;
   skipped: number;
 }
@@ -106,17 +336,42 @@ export interface FileSeedResult {
   filesUploaded: number;
   filesFailed: number;
   linksCreated: number;
+  versionsUploaded?: number;  // Only when the full version history is replayed
+}
+
+// Classic Attachments / Notes, copied as-is or converted to Salesforce Files
+export interface LegacyFileSeedResult {
+  found: number;
+  inserted: number;
+  failed: number;
+  convertedTo?: 'ContentVersion' | 'ContentNote';
+}
+
+// Tasks / Events, with the TaskRelation / EventRelation records (shared
+// contacts and invitees) inserted after them
+export interface ActivitySeedResult extends ObjectSeedResult {
+  relations?: ObjectSeedResult;
+}
+
+// Chatter posts (FeedItem) and their comments (FeedComment)
+export interface FeedSeedResult {
+  posts: ObjectSeedResult;
+  comments: ObjectSeedResult;
 }
 
 export interface SeedResults {
   coreObject: ObjectSeedResult;
-  children: ObjectSeedResult[];
-  grandchildren: ObjectSeedResult[];
-  tasks: ObjectSeedResult | null;
-  events: ObjectSeedResult | null;
+  related: ObjectSeedResult[];
+  tasks: ActivitySeedResult | null;
+  events: ActivitySeedResult | null;
   files: FileSeedResult | null;
+  attachments?: LegacyFileSeedResult | null;
+  notes?: LegacyFileSeedResult | null;
+  feed?: FeedSeedResult | null;
   errors: SeedError[];
   dryRun: boolean;
+  unmatchedUsers?: UnmatchedUser[];
+  translatedPicklistValues?: TranslatedPicklistValue[];
 }
 
 // ---------------------------------------------------------------------------
@@ -129,13 +384,369 @@ export interface IdMapCollection {
   [objectApiName: string]: IdMap;
 }
 
+// 3-character ID key prefix → object API name, used to resolve polymorphic values
+export type KeyPrefixMap = Map<string, string>;
+
+// ---------------------------------------------------------------------------
+// Record types — translated by SobjectType + DeveloperName between orgs
+// ---------------------------------------------------------------------------
+
+// What to do with a record whose record type is missing or inactive in the target:
+// 'default' inserts it on the target's default record type, 'skip' leaves it out
+export const RECORD_TYPE_FALLBACKS = ['default', 'skip'] as const;
+export type RecordTypeFallback = (typeof RECORD_TYPE_FALLBACKS)[number];
+
+export interface RecordTypeMapping {
+  mapped: Map<string, string>;     // source RecordType Id → target RecordType Id
+  missing: Map<string, string>;    // source RecordType Id → reason it has no target
+  warned: Set<string>;             // missing IDs already reported this run
+}
+
+// ---------------------------------------------------------------------------
+// Picklists — source values the target would reject, translated per field
+// ---------------------------------------------------------------------------
+
+// What to do with a value a restricted picklist in the target does not accept:
+// 'default' uses the target's default value (blank when there is none),
+// 'null' blanks the field, 'skip' leaves the record out
+export const PICKLIST_FALLBACKS = ['default', 'null', 'skip'] as const;
+export type PicklistFallback = (typeof PICKLIST_FALLBACKS)[number];
+
+export interface PicklistMappingOptions {
+  // Explicit Object.Field → source value → target value pairs, checked before the fallback
+  mappingFile?: string;
+  fallback: PicklistFallback;
+}
+
+export interface PicklistValueSet {
+  values: Set<string>;
+  defaultValue: string | null;
+}
+
+export interface TranslatedPicklistValue {
+  objectApiName: string;
+  field: string;
+  sourceValue: string;
+  targetValue: string | null;  // null when blanked or the record was skipped
+  action: 'mapped' | PicklistFallback;
+  records: number;
+}
+
+export interface PicklistMapping {
+  rules: Map<string, Map<string, string | null>>;  // Object.Field → source value → target value (null blanks)
+  fallback: PicklistFallback;
+  // Active target values per Object.Field, and per Object.Field.RecordTypeId where
+  // a record type narrows them
+  fieldValues: Map<string, PicklistValueSet>;
+  recordTypeValues: Map<string, PicklistValueSet>;
+  loadedObjects: Set<string>;
+  translated: Map<string, TranslatedPicklistValue>;
+}
+
+// ---------------------------------------------------------------------------
+// Users — source users matched to target users for OwnerId and user lookups
+// ---------------------------------------------------------------------------
+
+export const USER_MATCH_KEYS = ['username', 'email', 'federation-id'] as const;
+export type UserMatchKey = (typeof USER_MATCH_KEYS)[number];
+
+export interface UserMappingOptions {
+  matchBy?: UserMatchKey;
+  // Explicit source username → target username pairs, checked before matchBy
+  mappingFile?: string;
+  // Target username that owns records whose source owner has no match
+  defaultOwner?: string;
+}
+
+export interface UnmatchedUser {
+  sourceUserId: string;
+  username: string;
+  name: string;
+  references: number;
+}
+
+export interface UserMapping {
+  mapped: Map<string, string>;            // source User Id → target User Id
+  fallbackUserId: string | null;
+  unmatched: Map<string, UnmatchedUser>;  // keyed by source User Id
+}
+
+// ---------------------------------------------------------------------------
+// Groups — queues and public groups translated by DeveloperName + Type
+// ---------------------------------------------------------------------------
+
+export interface MappedGroup {
+  targetId: string;
+  type: string;
+  developerName: string;
+}
+
+export interface GroupMapping {
+  mapped: Map<string, MappedGroup>;           // source Group Id → target group
+  missing: Map<string, string>;               // source Group Id → reason it has no target
+  queueObjects: Map<string, Set<string>>;     // target queue Id → SobjectTypes it supports
+  warned: Set<string>;                        // source Group Id + object already reported this run
+}
+
+// ---------------------------------------------------------------------------
+// Dependency graph — lookup targets pulled in ahead of the core object
+// ---------------------------------------------------------------------------
+
+// A lookup from one dependency object to another; `fromObject` needs `toObject` inserted first
+export interface DependencyEdge {
+  fromObject: string;
+  toObject: string;
+  field: string;
+  nillable: boolean;
+  // Never broken to resolve a cycle (a child's lookup to its parent in the tree)
+  fixed?: boolean;
+}
+
+export interface DependencyOrder {
+  order: string[];
+  // Edges broken to resolve cycles — those lookups are set by update after insert
+  deferred: DependencyEdge[];
+}
+
+// A lookup left blank at insert time, filled in once its target exists
+export interface DeferredLookup {
+  objectApiName: string;
+  sourceId: string;
+  field: string;
+  referencedSourceId: string;
+}
+
+// ---------------------------------------------------------------------------
+// Run state — checkpoint written as batches commit
+// ---------------------------------------------------------------------------
+
+export type SeedStep = 'core' | 'related' | 'tasks' | 'events' | 'files' | 'attachments' | 'notes' | 'feed';
+
+export interface BatchProgress {
+  committed: number;
+  total: number;
+}
+
+// A rejected insert/upsert, kept with the payload that was sent so
+// `sf seedbuddy retry` can send it again
+export interface FailedRecord {
+  objectApiName: string;
+  sourceId: string;
+  // 'update' — a record matched by --match whose --update-matched update failed; payload carries the target Id
+  operation: 'insert' | 'upsert' | 'update';
+  externalIdField?: string;
+  payload: Record<string, unknown>;
+  // Source IDs behind the payload's lookups — remapped again on retry
+  lookups?: { [fieldName: string]: string };
+  error: string;
+}
+
+export interface RunState {
+  version: number;
+  runId: string;
+  startedAt: string;
+  updatedAt: string;
+  sourceInstanceUrl: string;
+  targetInstanceUrl: string;
+  config: PersistedSeedConfig;
+  // Absent in run files written before execution options were saved
+  options?: ExecutionOptions;
+  coreSourceIds: string[] | null;
+  completedSteps: SeedStep[];
+  completedObjects: string[];
+  batchProgress: { [objectApiName: string]: BatchProgress };
+  idMaps: { [objectApiName: string]: { [sourceId: string]: string } };
+  matchedTargetIds: string[];
+  maskingSalt: string;
+  results: SeedResults;
+  // Absent in run files written before failed records were tracked
+  failedRecords?: FailedRecord[];
+  // Lookups left blank at insert time and not yet set — a resumed run applies them
+  deferredLookups?: DeferredLookup[];
+}
+
+// ---------------------------------------------------------------------------
+// Snapshot — a record family exported to disk, replayed later by import
+// ---------------------------------------------------------------------------
+
+export interface SnapshotObject {
+  objectApiName: string;
+  records: number;
+  // Hash of the createable fields at export time; null for reference tables
+  fingerprint: string | null;
+}
+
+export interface SnapshotManifest {
+  version: number;
+  snapshotId: string;
+  createdAt: string;
+  sourceInstanceUrl: string;
+  config: PersistedSeedConfig;
+  coreSourceIds: string[];
+  // Lookup levels pulled in beyond the selected tree; imports never go deeper
+  dependencyDepth: number;
+  objects: SnapshotObject[];
+  files: number;
+}
+
+// Implemented by sources that serve ContentVersion binaries without an HTTP download
+export interface VersionDataReader {
+  readVersionData(contentVersionId: string): Promise<Buffer>;
+  streamVersionData(contentVersionId: string): Readable;
+}
+
+// An exported snapshot standing in for the source org (see openSnapshotSource)
+export interface SnapshotSource extends RecordSource, VersionDataReader {
+  // Instance URL of the org the snapshot was exported from
+  readonly exportedFrom: string;
+}
+
+// What a seed run copies from: a live org, or a snapshot on disk
+export type SeedSource = Connection | SnapshotSource;
+
+// ---------------------------------------------------------------------------
+// Run manifest — target IDs created by a run, consumed by rollback
+// ---------------------------------------------------------------------------
+
+export type ManifestTier = 'dependency' | 'core' | 'related' | 'activity' | 'file';
+
+export interface ManifestEntry {
+  objectApiName: string;
+  tier: ManifestTier;
+  depth?: number;
+  targetIds: string[];
+}
+
+export interface RunManifest {
+  version: number;
+  runId: string;
+  createdAt: string;
+  targetInstanceUrl: string;
+  objects: ManifestEntry[];
+}
+
+export interface ObjectRollbackResult {
+  objectApiName: string;
+  tier: ManifestTier;
+  requested: number;
+  deleted: number;
+  failed: number;
+}
+
+export interface RollbackResults {
+  objects: ObjectRollbackResult[];
+  errors: SeedError[];
+  dryRun: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Retry — failed records of a run sent again
+// ---------------------------------------------------------------------------
+
+export interface ObjectRetryResult {
+  objectApiName: string;
+  attempted: number;
+  succeeded: number;
+  failed: number;
+}
+
+export interface RetryResults {
+  objects: ObjectRetryResult[];
+  errors: SeedError[];
+  dryRun: boolean;
+  // Failed records still listed in the run file afterwards
+  remaining: number;
+}
+
+// ---------------------------------------------------------------------------
+// Preflight — source/target schema compatibility, checked before a run
+// ---------------------------------------------------------------------------
+
+// Blocking issues make records (or whole objects) fail; warnings lose data quietly
+export type PreflightSeverity = 'blocking' | 'warning';
+
+export interface PreflightIssue {
+  severity: PreflightSeverity;
+  field?: string;
+  message: string;
+}
+
+export interface ObjectPreflightResult {
+  objectApiName: string;
+  sampled: number;
+  issues: PreflightIssue[];
+}
+
+export interface PreflightReport {
+  objects: ObjectPreflightResult[];
+  blocking: number;
+  warnings: number;
+}
+
+// ---------------------------------------------------------------------------
+// Run report — machine-readable results written with --report
+// ---------------------------------------------------------------------------
+
+export const REPORT_FORMATS = ['json', 'csv', 'junit'] as const;
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export interface RunReport {
+  version: number;
+  command: string;
+  startedAt: string;
+  finishedAt: string;
+  elapsedSeconds: number;
+  sourceInstanceUrl: string;
+  targetInstanceUrl: string;
+  runFile?: string;
+  config: PersistedSeedConfig;
+  results: SeedResults;
+  // Set when the run threw before finishing; results are partial
+  error?: string;
+}
+
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
 export const BATCH_SIZE = 200;
+export const MAX_RELATIONSHIP_DEPTH = 10;
+export const DEFAULT_DEPENDENCY_DEPTH = 5;
+export const DEFAULT_PREFLIGHT_SAMPLE_SIZE = 200;
+
+// Objects seeded / files transferred at once; 1 keeps everything sequential
+export const DEFAULT_CONCURRENCY = 1;
+export const MAX_CONCURRENCY = 10;
+
+// Files at or above the threshold are streamed as multipart uploads instead
+// of base64 JSON, which only fits ~37 MB of binary in a REST request body
+export const DEFAULT_FILE_STREAM_THRESHOLD_MB = 10;
+export const MAX_FILE_STREAM_THRESHOLD_MB = 37;
+export const MAX_FILE_UPLOAD_BYTES = 2 * 1024 * 1024 * 1024;
+
+// The master record type has the same ID in every org
+export const MASTER_RECORD_TYPE_ID = '012000000000000AAA';
 export const QUERY_CHUNK_SIZE = 200;
 
+// Bulk API 2.0 — used above the threshold (or always with --bulk)
+export const DEFAULT_BULK_THRESHOLD = 2000;
+export const BULK_JOB_SIZE = 10000;
+export const BULK_POLL_INTERVAL_MS = 5000;
+export const BULK_POLL_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Batch commits rewrite the run file at most this often; step ends, aborts and failures always do
+export const CHECKPOINT_INTERVAL_MS = 2000;
+
+export const RUN_STATE_VERSION = 1;
+export const MANIFEST_VERSION = 1;
+export const SEED_PLAN_VERSION = 1;
+export const SNAPSHOT_VERSION = 1;
+export const REPORT_VERSION = 1;
+export const DEFAULT_RUN_DIR = '.seedbuddy/runs';
+
+// Pseudo-object key under which source → target ContentDocument IDs are tracked
+export const CONTENT_DOCUMENT_MAP_KEY = 'ContentDocument';
+
 export const SYSTEM_READONLY_FIELDS = new Set([
   'Id',
   'IsDeleted',
@@ -153,7 +764,6 @@ export const ACTIVITY_SYSTEM_FIELDS = new Set([
   ...SYSTEM_READONLY_FIELDS,
   'IsClosed',
   'IsArchived',
-  'IsRecurrence',
   'IsHighPriority',
   'TaskSubtype',
   'EventSubtype',
@@ -220,6 +830,15 @@ export const SYSTEM_LOOKUP_OBJECTS = new Set([
   'FiscalYearSettings',
 ]);
 
+// Rollback deletes tiers in reverse dependency order (related: deepest level first)
+export const ROLLBACK_TIER_ORDER: ManifestTier[] = ['file', 'activity', 'related', 'core', 'dependency'];
+
+// Feed post / comment types that can be created through the API; the rest
+// (tracked changes, system and app posts) are written by the platform itself
+export const CREATABLE_FEED_ITEM_TYPES = new Set(['TextPost', 'LinkPost', 'ContentPost']);
+export const CREATABLE_FEED_COMMENT_TYPES = new Set(['TextComment', 'ContentComment']);
+
+// FeedItem / FeedComment are seeded by the feed step (--include-feed), never as related objects
 export const EXCLUDED_CHILD_OBJECTS = new Set([
   'Task',
   'Event',
@@ -0,0 +1,242 @@
+import { Connection } from '@salesforce/core';
+import {
+  SeedConfig,
+  SeederLogger,
+  SeedSource,
+  FieldInfo,
+  UserMatchKey,
+  UserMapping,
+  UserMappingOptions,
+  UnmatchedUser,
+} from './types.js';
+import { queryAll } from './query.js';
+import { assertValidConfigFile, loadConfigFile } from './configfile.js';
+
+// ---------------------------------------------------------------------------
+// Internal types
+// ---------------------------------------------------------------------------
+
+interface UserRow {
+  Id: string;
+  Username: string;
+  Email: string | null;
+  FederationIdentifier: string | null;
+  Name: string;
+}
+
+export const USER_SOQL = 'SELECT Id, Username, Email, FederationIdentifier, Name FROM User';
+const USER_KEY_PREFIX = '005';
+
+// ---------------------------------------------------------------------------
+// Match keys — the values two users must share to be considered the same
+// ---------------------------------------------------------------------------
+
+// Sandbox My Domain hosts carry the sandbox name: acme--uat.sandbox.my.salesforce.com → uat
+export function sandboxNameOf(instanceUrl: string): string | null {
+  let host: string;
+  try {
+    host = new URL(instanceUrl).hostname;
+  } catch {
+    return null;
+  }
+  const match = /^[a-z0-9-]+?--([a-z0-9]+)\./i.exec(host);
+  return match ? match[1].toLowerCase() : null;
+}
+
+// Sandboxes append ".<sandbox name>" to every username: jane@acme.com.uat → jane@acme.com.
+// Only that org's own sandbox name is stripped, so jane@mail.acme.com stays as it is.
+export function stripSandboxSuffix(username: string, sandboxName: string | null): string {
+  if (!sandboxName) return username;
+  const suffix = `.${sandboxName}`;
+  const at = username.lastIndexOf('@');
+  if (at < 0 || !username.toLowerCase().endsWith(suffix)) return username;
+  const domain = username.slice(at + 1, -suffix.length);
+  return domain.includes('.') ? username.slice(0, -suffix.length) : username;
+}
+
+// Sandbox refreshes append ".invalid" to every user email: jane@acme.com.invalid → jane@acme.com
+export function stripInvalidEmailSuffix(email: string): string {
+  const suffix = '.invalid';
+  return email.toLowerCase().endsWith(suffix) && email.includes('@') ? email.slice(0, -suffix.length) : email;
+}
+
+// Candidate keys in preference order — exact before suffix-stripped
+function matchKeys(row: UserRow, matchBy: UserMatchKey, sandboxName: string | null): string[] {
+  switch (matchBy) {
+    case 'username': {
+      const exact = row.Username.toLowerCase();
+      const stripped = stripSandboxSuffix(exact, sandboxName);
+      return stripped === exact ? [exact] : [exact, stripped];
+    }
+    case 'email': {
+      if (!row.Email) return [];
+      const exact = row.Email.toLowerCase();
+      const stripped = stripInvalidEmailSuffix(exact);
+      return stripped === exact ? [exact] : [exact, stripped];
+    }
+    case 'federation-id':
+      return row.FederationIdentifier ? [row.FederationIdentifier] : [];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// loadUserMappingFile — explicit source username → target username pairs
+// ---------------------------------------------------------------------------
+
+export function loadUserMappingFile(filePath: string): Map<string, string> {
+  const raw = loadConfigFile('User mapping file', filePath);
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`User mapping file ${filePath} must be a mapping of source username → target username`);
+  }
+
+  const pairs = new Map<string, string>();
+  const errors: string[] = [];
+  for (const [source, target] of Object.entries(raw as Record<string, unknown>)) {
+    if (typeof target !== 'string' || target.trim() === '') {
+      errors.push(`${source}: target username must be a non-empty string`);
+      continue;
+    }
+    pairs.set(source.toLowerCase(), target.toLowerCase());
+  }
+  assertValidConfigFile('User mapping file', filePath, errors);
+
+  return pairs;
+}
+
+// ---------------------------------------------------------------------------
+// buildUserMapping — query both orgs once and match every source user
+// ---------------------------------------------------------------------------
+
+export async function buildUserMapping(
+  sourceConn: SeedSource,
+  targetConn: Connection,
+  options: UserMappingOptions,
+  logger: SeederLogger
+): Promise<UserMapping> {
+  const explicit = options.mappingFile ? loadUserMappingFile(options.mappingFile) : new Map<string, string>();
+
+  const sourceRows = (await queryAll(sourceConn, USER_SOQL)) as unknown as UserRow[];
+  // Only active users can own records
+  const targetRows = (await queryAll(targetConn, `${USER_SOQL} WHERE IsActive = true`)) as unknown as UserRow[];
+  const targetByUsername = new Map(targetRows.map((row) => [row.Username.toLowerCase(), row.Id]));
+  const sourceSandbox = sandboxNameOf('exportedFrom' in sourceConn ? sourceConn.exportedFrom : sourceConn.instanceUrl);
+  const targetSandbox = sandboxNameOf(targetConn.instanceUrl);
+
+  // Index target users by match key — exact keys win over suffix-stripped ones
+  const targetByKey = new Map<string, string>();
+  if (options.matchBy) {
+    const keyed = targetRows.map((row) => ({ id: row.Id, keys: matchKeys(row, options.matchBy!, targetSandbox) }));
+    for (const { id, keys } of keyed) {
+      if (keys[0] && !targetByKey.has(keys[0])) targetByKey.set(keys[0], id);
+    }
+    for (const { id, keys } of keyed) {
+      for (const key of keys.slice(1)) {
+        if (!targetByKey.has(key)) targetByKey.set(key, id);
+      }
+    }
+  }
+
+  const mapping: UserMapping = { mapped: new Map(), fallbackUserId: null, unmatched: new Map() };
+
+  for (const row of sourceRows) {
+    const explicitTarget = explicit.get(row.Username.toLowerCase());
+    let targetId = explicitTarget ? targetByUsername.get(explicitTarget) : undefined;
+    if (explicitTarget && !targetId) {
+      logger.warn(`User mapping: ${explicitTarget} (for ${row.Username}) is not an active user in the target org`);
+    }
+
+    if (!targetId && options.matchBy) {
+      for (const key of matchKeys(row, options.matchBy, sourceSandbox)) {
+        targetId = targetByKey.get(key);
+        if (targetId) break;
+      }
+    }
+
+    if (targetId) {
+      mapping.mapped.set(row.Id, targetId);
+    } else {
+      mapping.unmatched.set(row.Id, { sourceUserId: row.Id, username: row.Username, name: row.Name, references: 0 });
+    }
+  }
+
+  if (options.defaultOwner) {
+    const fallback = targetByUsername.get(options.defaultOwner.toLowerCase());
+    if (!fallback) {
+      throw new Error(`Default owner ${options.defaultOwner} is not an active user in the target org`);
+    }
+    mapping.fallbackUserId = fallback;
+  }
+
+  logger.log(`  Users: ${mapping.mapped.size} matched, ${mapping.unmatched.size} without a target match`);
+  return mapping;
+}
+
+// ---------------------------------------------------------------------------
+// userLookupFields / applyUserLookups — translate user references on a record
+// ---------------------------------------------------------------------------
+
+export function userLookupFields(fields: FieldInfo[], insertableFields: string[]): FieldInfo[] {
+  const insertable = new Set(insertableFields);
+  return fields.filter((f) => insertable.has(f.name) && f.type === 'reference' && f.referenceTo.includes('User'));
+}
+
+// Unmatched users fall back to the default owner on OwnerId and required
+// lookups; optional lookups are cleared, and without a default owner OwnerId
+// is left off so the running user owns the record.
+export function applyUserLookups(
+  config: SeedConfig,
+  userFields: FieldInfo[],
+  source: Record<string, unknown>,
+  prepared: Record<string, unknown>
+): void {
+  const mapping = config.userMapping;
+  if (!mapping) return;
+
+  for (const field of userFields) {
+    const sourceUserId = source[field.name] as string | null | undefined;
+    // Only User IDs — queue/group owners are not users
+    if (!sourceUserId?.startsWith(USER_KEY_PREFIX)) continue;
+
+    const targetUserId = mapping.mapped.get(sourceUserId);
+    if (targetUserId) {
+      prepared[field.name] = targetUserId;
+      continue;
+    }
+
+    const entry = mapping.unmatched.get(sourceUserId) ?? {
+      sourceUserId,
+      username: sourceUserId,
+      name: '(not visible in source)',
+      references: 0,
+    };
+    entry.references++;
+    mapping.unmatched.set(sourceUserId, entry);
+
+    if (mapping.fallbackUserId && (field.name === 'OwnerId' || !field.nillable)) {
+      prepared[field.name] = mapping.fallbackUserId;
+    } else if (field.nillable) {
+      prepared[field.name] = null;
+    } else {
+      delete prepared[field.name];
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// listUnmatchedUsers — end-of-run report, merged with earlier sessions on resume
+// ---------------------------------------------------------------------------
+
+export function listUnmatchedUsers(mapping: UserMapping, previous: UnmatchedUser[] = []): UnmatchedUser[] {
+  const merged = new Map(previous.map((u) => [u.sourceUserId, { ...u }]));
+  for (const user of mapping.unmatched.values()) {
+    if (user.references === 0) continue;
+    const existing = merged.get(user.sourceUserId);
+    if (existing) {
+      existing.references += user.references;
+    } else {
+      merged.set(user.sourceUserId, { ...user });
+    }
+  }
+  return [...merged.values()].sort((a, b) => b.references - a.references);
+}